@@ -0,0 +1,34 @@
+import { readFile } from 'fs/promises';
+
+// Kommungränser buntade med servern: server/data/kommuner.geojson (byggs med npm run build:kommuner).
+// Varje feature har properties { kod, namn } — kod är SCB:s 4-siffriga kommunkod och enda join-nyckeln.
+
+export async function loadBoundaries(file) {
+  const geo = JSON.parse(await readFile(file, 'utf8'));
+  const byKod = new Map();
+  for (const f of geo.features) {
+    const kod = f.properties?.kod;
+    if (!/^\d{4}$/.test(kod ?? '')) throw new Error(`Ogiltig kommunkod i ${file}: ${kod}`);
+    if (byKod.has(kod)) throw new Error(`Dubblett av kommunkod ${kod} i ${file}`);
+    byKod.set(kod, f);
+  }
+  return { features: geo.features, byKod };
+}
+
+// Koder utan motsvarighet på andra sidan. scbCodes: kommunnamn → kod (från SCB:s Region-variabel).
+export function matchReport(boundaries, scbCodes) {
+  const scbByKod = new Map(Object.entries(scbCodes).map(([namn, kod]) => [kod, namn]));
+  const missingBoundary = [...scbByKod]
+    .filter(([kod]) => !boundaries.byKod.has(kod))
+    .map(([kod, namn]) => ({ kod, namn }));
+  const missingStat = boundaries.features
+    .filter(f => !scbByKod.has(f.properties.kod))
+    .map(f => ({ kod: f.properties.kod, namn: f.properties.namn }));
+  return {
+    boundaries: boundaries.byKod.size,
+    scb: scbByKod.size,
+    matched: boundaries.byKod.size - missingStat.length,
+    missingBoundary,
+    missingStat,
+  };
+}
@@ -0,0 +1,209 @@
+// Gemensamt cachelager för upstream-data. Varje namespace har egen TTL och storlek, en L1 i minnet och
+// kan dessutom skriva till en L2-store (Supabase eller filer på disk) som överlever omstarter.
+// Samtidiga förfrågningar efter samma nyckel delar ett upstream-anrop, och när upstream fallerar
+// serveras utgången data (inom staleTtl) hellre än ett fel. WMTS-tiles har en egen diskcache (tileCache.js).
+//
+// En L2-store är { name, get(key) → { data, time } | null, set(key, data, time), delete(key), purge(prefix) }.
+// Nycklarna i storen är "<namespace>:<nyckel>".
+
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from 'fs/promises';
+import { createHash, randomUUID } from 'crypto';
+import { join } from 'path';
+import { log } from './logger.js';
+
+// name → { ttl, maxEntries, staleTtl, persist }; ttl kan vara en funktion av datat (t.ex. tokens livslängd)
+function createNamespace(name, { ttl, maxEntries = 1000, staleTtl = 0, persist = false }, store) {
+  const entries = new Map(); // key → { data, time, ttl } i LRU-ordning
+  const inflight = new Map(); // key → Promise
+  const counters = { hits: 0, l2Hits: 0, misses: 0, stale: 0, errors: 0 };
+  const l2 = persist ? store : null;
+
+  const isFresh = entry => entry && Date.now() - entry.time < entry.ttl;
+  const isServable = entry => entry && Date.now() - entry.time < entry.ttl + staleTtl;
+
+  function remember(key, data, time) {
+    const entry = { data, time, ttl: typeof ttl === 'function' ? ttl(data) : ttl };
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > maxEntries) entries.delete(entries.keys().next().value);
+    return entry;
+  }
+
+  async function load(key, loader) {
+    let previous = entries.get(key);
+    if (l2) {
+      const stored = await l2.get(`${name}:${key}`);
+      if (stored && (!previous || stored.time > previous.time)) {
+        previous = remember(key, stored.data, stored.time);
+        if (isFresh(previous)) {
+          counters.l2Hits++;
+          return previous.data;
+        }
+      }
+    }
+
+    counters.misses++;
+    try {
+      const data = await loader();
+      const time = Date.now();
+      remember(key, data, time);
+      if (l2) l2.set(`${name}:${key}`, data, time);
+      return data;
+    } catch (e) {
+      counters.errors++;
+      if (!isServable(previous)) throw e;
+      counters.stale++;
+      log.warn('Serving stale cache entry', {
+        namespace: name, key, ageMinutes: Math.round((Date.now() - previous.time) / 60000), err: e.message,
+      });
+      return previous.data;
+    }
+  }
+
+  return {
+    name,
+
+    async get(key, loader) {
+      const hit = entries.get(key);
+      if (isFresh(hit)) {
+        counters.hits++;
+        entries.delete(key);
+        entries.set(key, hit);
+        return hit.data;
+      }
+      if (inflight.has(key)) return inflight.get(key);
+      const promise = load(key, loader).finally(() => inflight.delete(key));
+      inflight.set(key, promise);
+      return promise;
+    },
+
+    async delete(key) {
+      entries.delete(key);
+      if (l2) await l2.delete(`${name}:${key}`);
+    },
+
+    async purge() {
+      const size = entries.size;
+      entries.clear();
+      if (l2) await l2.purge(`${name}:`);
+      return size;
+    },
+
+    stats() {
+      const lookups = counters.hits + counters.l2Hits + counters.misses;
+      return {
+        name,
+        ttl: typeof ttl === 'function' ? null : ttl,
+        staleTtl,
+        maxEntries,
+        persist: Boolean(l2),
+        size: entries.size,
+        inflight: inflight.size,
+        ...counters,
+        hitRate: lookups > 0 ? Math.round(((counters.hits + counters.l2Hits) / lookups) * 1000) / 1000 : null,
+      };
+    },
+  };
+}
+
+// { store } → { namespace(name, options), get(name), stats() }
+export function createCache({ store = null } = {}) {
+  const namespaces = new Map();
+
+  return {
+    namespace(name, options) {
+      if (namespaces.has(name)) throw new Error(`Cache namespace ${name} finns redan`);
+      const ns = createNamespace(name, options, store);
+      namespaces.set(name, ns);
+      return ns;
+    },
+
+    get: name => namespaces.get(name) ?? null,
+
+    stats() {
+      return { store: store?.name ?? null, namespaces: [...namespaces.values()].map(ns => ns.stats()) };
+    },
+  };
+}
+
+// ── L2-stores ───────────────────────────────────────────────────────────────
+// Fel i storen loggas och behandlas som miss — L2 får aldrig fälla en förfrågan.
+
+// Tabell cache_entries (key text primary key, data jsonb, fetched_at timestamptz)
+export function createSupabaseStore(supabase, table = 'cache_entries') {
+  async function run(label, fn) {
+    try {
+      const { data, error } = await fn();
+      if (error) log.warn('Cache store error', { store: 'supabase', op: label, err: error.message });
+      return error ? null : data;
+    } catch (e) {
+      log.warn('Cache store error', { store: 'supabase', op: label, err: e.message });
+      return null;
+    }
+  }
+
+  return {
+    name: 'supabase',
+    async get(key) {
+      const row = await run('read', () => supabase.from(table).select('data, fetched_at').eq('key', key).maybeSingle());
+      return row ? { data: row.data, time: new Date(row.fetched_at).getTime() } : null;
+    },
+    async set(key, data, time) {
+      await run('write', () => supabase.from(table).upsert({ key, data, fetched_at: new Date(time).toISOString() }));
+    },
+    async delete(key) {
+      await run('delete', () => supabase.from(table).delete().eq('key', key));
+    },
+    async purge(prefix) {
+      await run('purge', () => supabase.from(table).delete().like('key', `${prefix.replace(/[%_\\]/g, '\\$&')}%`));
+    },
+  };
+}
+
+// En JSON-fil per nyckel: <dir>/<sha1(key)>.json med { key, time, data }
+export function createFileStore(dir) {
+  const fileFor = key => join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+  const ready = mkdir(dir, { recursive: true }).catch(e => log.warn('Cache store error', { store: 'file', op: 'mkdir', err: e.message }));
+
+  return {
+    name: 'file',
+    async get(key) {
+      try {
+        const entry = JSON.parse(await readFile(fileFor(key), 'utf8'));
+        return entry.key === key ? { data: entry.data, time: entry.time } : null;
+      } catch (e) {
+        if (e.code !== 'ENOENT') log.warn('Cache store error', { store: 'file', op: 'read', err: e.message });
+        return null;
+      }
+    },
+    async set(key, data, time) {
+      await ready;
+      const file = fileFor(key);
+      // Egen temporärfil per skrivning — samtidiga set för samma nyckel får inte skriva i samma fil
+      const tmp = `${file}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(tmp, JSON.stringify({ key, time, data }));
+        await rename(tmp, file);
+      } catch (e) {
+        await unlink(tmp).catch(() => {});
+        log.warn('Cache store error', { store: 'file', op: 'write', err: e.message });
+      }
+    },
+    async delete(key) {
+      await unlink(fileFor(key)).catch(() => {});
+    },
+    async purge(prefix) {
+      await ready;
+      for (const name of await readdir(dir)) {
+        if (!name.endsWith('.json')) continue;
+        const file = join(dir, name);
+        try {
+          const { key } = JSON.parse(await readFile(file, 'utf8'));
+          if (key.startsWith(prefix)) await unlink(file);
+        } catch (e) {
+          log.warn('Cache store error', { store: 'file', op: 'purge', err: e.message });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,185 @@
+// AI-chatten: validering av konversationen, trunkering till en tokenbudget, kartkontext till modellen
+// och strömmande tolkning av svaret (text ut direkt, ```places-blocket som JSON när det är komplett).
+
+import { log } from './logger.js';
+
+const MAX_USER_CHARS = 2000;
+const MAX_ASSISTANT_CHARS = 8000;
+const MAX_MESSAGES = 50;
+const MAX_PLACES_PER_MESSAGE = 30;
+
+export class ChatRequestError extends Error {}
+
+function validPlace(p) {
+  return p && typeof p.name === 'string' && Number.isFinite(p.lat) && Number.isFinite(p.lon);
+}
+
+// { messages: [{ role: 'user'|'assistant', content, places? }], context? } — eller äldre { message }
+export function parseChatRequest(body) {
+  let messages = body?.messages;
+  if (messages === undefined && body?.message !== undefined) {
+    messages = [{ role: 'user', content: body.message }];
+  }
+  if (!Array.isArray(messages) || messages.length === 0) throw new ChatRequestError('messages required');
+  if (messages.length > MAX_MESSAGES) messages = messages.slice(-MAX_MESSAGES);
+
+  const parsed = messages.map(m => {
+    if (!m || (m.role !== 'user' && m.role !== 'assistant') || typeof m.content !== 'string') {
+      throw new ChatRequestError('Varje meddelande behöver role (user/assistant) och content');
+    }
+    const max = m.role === 'user' ? MAX_USER_CHARS : MAX_ASSISTANT_CHARS;
+    if (m.content.length > max) throw new ChatRequestError(`Meddelandet får vara max ${max} tecken.`);
+    const places = Array.isArray(m.places) ? m.places.filter(validPlace).slice(0, MAX_PLACES_PER_MESSAGE) : [];
+    return { role: m.role, content: m.content, places };
+  });
+  if (parsed[parsed.length - 1].role !== 'user') throw new ChatRequestError('Sista meddelandet måste vara från användaren');
+  if (!parsed[parsed.length - 1].content.trim()) throw new ChatRequestError('message required');
+  return { messages: parsed, context: parseMapContext(body?.context) };
+}
+
+// ── Tokenbudget ─────────────────────────────────────────────────────────────
+
+// Grov uppskattning (~4 tecken per token) — räcker för att hålla historiken under modellens gräns
+export function estimateTokens(text) {
+  return Math.ceil(text.length / 4);
+}
+
+// Tidigare svar skickas tillbaka med sitt places-block så att följdfrågor ("vilka av dem …") kan syfta på dem
+export function toModelMessage({ role, content, places }) {
+  if (role !== 'assistant' || places.length === 0) return { role, content };
+  const block = places.map(({ name, lat, lon, description }) => ({ name, lat, lon, description }));
+  return { role, content: `${content}\n\n\`\`\`places\n${JSON.stringify(block)}\n\`\`\`` };
+}
+
+// Behåll de senaste meddelandena som ryms i budgeten; den sista användarfrågan tas alltid med.
+// Historiken får inte börja med ett assistentsvar (modellen ska se frågan först).
+export function truncateHistory(messages, budget) {
+  const kept = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].content);
+    if (kept.length > 0 && used + tokens > budget) break;
+    kept.unshift(messages[i]);
+    used += tokens;
+  }
+  while (kept.length > 1 && kept[0].role !== 'user') kept.shift();
+  return kept;
+}
+
+// ── Kartkontext ─────────────────────────────────────────────────────────────
+
+const clean = (value, max = 120) => String(value).replace(/[\r\n]+/g, ' ').slice(0, max);
+
+// Klientens vy: { bbox: [west, south, east, north], zoom, layers: [namn], selected: { type, name } }
+// Allt är valfritt; ogiltiga delar ignoreras hellre än att hela frågan avvisas.
+export function parseMapContext(context) {
+  if (!context || typeof context !== 'object') return null;
+  const result = {};
+  const { bbox, zoom, layers, selected } = context;
+  if (Array.isArray(bbox) && bbox.length === 4 && bbox.every(Number.isFinite)) {
+    const [west, south, east, north] = bbox;
+    if (south >= -90 && north <= 90 && south < north && west >= -180 && east <= 180) {
+      result.bbox = bbox.map(v => Math.round(v * 1e4) / 1e4);
+    }
+  }
+  if (Number.isFinite(zoom)) result.zoom = Math.round(zoom * 10) / 10;
+  if (Array.isArray(layers)) result.layers = layers.filter(l => typeof l === 'string').slice(0, 20).map(l => clean(l));
+  if (selected && typeof selected === 'object' && typeof selected.name === 'string') {
+    result.selected = { type: clean(selected.type ?? '', 40), name: clean(selected.name) };
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+export function formatMapContext(context) {
+  if (!context) return null;
+  const lines = ['Användarens karta just nu (använd som kontext när frågan syftar på "här", "synligt" eller "vald"):'];
+  if (context.bbox) {
+    const [west, south, east, north] = context.bbox;
+    lines.push(`- Synligt område (WGS84): lat ${south}–${north}, lon ${west}–${east}${context.zoom !== undefined ? `, zoom ${context.zoom}` : ''}`);
+  }
+  if (context.layers?.length) lines.push(`- Synliga lager: ${context.layers.join(', ')}`);
+  if (context.selected) lines.push(`- Valt kartobjekt: ${context.selected.name}${context.selected.type ? ` (${context.selected.type})` : ''}`);
+  return lines.length > 1 ? lines.join('\n') : null;
+}
+
+// ── Strömmande svar ─────────────────────────────────────────────────────────
+
+const PLACES_FENCE = '```places';
+const CLOSING_FENCE = /\n```/;
+
+// Delar upp modellens ström i synlig text och places-block. onText får bara text utanför blocket;
+// onPlaces anropas när blocket stängts. En delvis mottagen öppningsfence hålls kvar tills den avgjorts.
+export function createPlacesStreamParser({ onText, onPlaces }) {
+  let buffer = '';
+  let inBlock = false;
+
+  function heldBackLength(text) {
+    for (let n = Math.min(PLACES_FENCE.length - 1, text.length); n > 0; n--) {
+      if (PLACES_FENCE.startsWith(text.slice(-n))) return n;
+    }
+    return 0;
+  }
+
+  function drain() {
+    for (;;) {
+      if (!inBlock) {
+        const start = buffer.indexOf(PLACES_FENCE);
+        if (start === -1) {
+          const keep = heldBackLength(buffer);
+          if (buffer.length > keep) onText(buffer.slice(0, buffer.length - keep));
+          buffer = buffer.slice(buffer.length - keep);
+          return;
+        }
+        if (start > 0) onText(buffer.slice(0, start));
+        buffer = buffer.slice(start + PLACES_FENCE.length);
+        inBlock = true;
+      }
+      const end = buffer.search(CLOSING_FENCE);
+      if (end === -1) return;
+      emitPlaces(buffer.slice(0, end));
+      buffer = buffer.slice(end + 4);
+      inBlock = false;
+    }
+  }
+
+  function emitPlaces(json) {
+    try {
+      const places = JSON.parse(json);
+      const valid = Array.isArray(places) ? places.filter(validPlace) : [];
+      if (valid.length > 0) onPlaces(valid);
+    } catch (e) {
+      log.warn('Failed to parse places JSON', { err: e.message });
+    }
+  }
+
+  return {
+    push(delta) {
+      buffer += delta;
+      drain();
+    },
+    end() {
+      // Modellen glömde stänga blocket — försök ändå; annars är resten vanlig text
+      if (inBlock) emitPlaces(buffer.replace(/```\s*$/, ''));
+      else if (buffer) onText(buffer);
+      buffer = '';
+    },
+  };
+}
+
+// Verktygsanrop strömmas i fragment (index + bitar av id, namn och argument) — sätt ihop dem per index
+export function createToolCallAccumulator() {
+  const calls = [];
+  return {
+    push(deltas) {
+      for (const d of deltas) {
+        const call = calls[d.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (d.id) call.id = d.id;
+        if (d.function?.name) call.function.name += d.function.name;
+        if (d.function?.arguments) call.function.arguments += d.function.arguments;
+      }
+    },
+    list() {
+      return calls.filter(Boolean).map((c, i) => ({ ...c, id: c.id || `call_${i}` }));
+    },
+  };
+}
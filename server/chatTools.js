@@ -0,0 +1,161 @@
+// Verktyg som chattmodellen kan anropa (OpenAI/OpenRouter function calling).
+// Implementationerna får appens egna dataladdare injicerade så att cache och rate limits delas med API:t.
+
+import { POI_CATEGORIES, parseTagFilter } from './poiCategories.js';
+import { distanceMeters } from './placeGrounding.js';
+import { COUNTIES, SCB_TABLES, countyCode, municipalityCodes } from './scbStats.js';
+
+const MAX_RADIUS_M = 5000;
+const MAX_RESULTS = 50;
+
+export class ToolError extends Error {}
+
+export const TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'geocode',
+      description: 'Slå upp koordinater för en plats, adress eller sevärdhet i Sverige (Nominatim). Använd före search_pois när användaren nämner en plats.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Platsnamn eller adress, t.ex. "Vasamuseet, Stockholm"' },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'search_pois',
+      description: 'Hitta verksamheter och platser av en kategori runt en punkt (OpenStreetMap). Resultaten sorteras på avstånd.',
+      parameters: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: POI_CATEGORIES.map(c => c.id), description: 'POI-kategori' },
+          lat: { type: 'number' },
+          lon: { type: 'number' },
+          radius_m: { type: 'number', description: `Sökradie i meter (högst ${MAX_RADIUS_M}, standard 1000)` },
+          limit: { type: 'number', description: 'Max antal resultat (standard 10)' },
+        },
+        required: ['category', 'lat', 'lon'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'municipality_stats',
+      description: 'Kommunstatistik från SCB, rangordnad. Kan begränsas till ett län. Saknar år används senaste året.',
+      parameters: {
+        type: 'object',
+        properties: {
+          table: {
+            type: 'string',
+            enum: SCB_TABLES.map(t => t.id),
+            description: SCB_TABLES.map(t => `${t.id}: ${t.label}`).join('; '),
+          },
+          county: { type: 'string', description: `Län, namn eller kod (${Object.values(COUNTIES).slice(0, 3).join(', ')} …)` },
+          year: { type: 'string', description: 'År, t.ex. "2023"' },
+          order: { type: 'string', enum: ['highest', 'lowest'], description: 'Högst eller lägst värde först (standard highest)' },
+          limit: { type: 'number', description: 'Antal kommuner (standard 10)' },
+        },
+        required: ['table'],
+      },
+    },
+  },
+];
+
+function clampLimit(value, fallback) {
+  const n = Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.max(1, Math.min(MAX_RESULTS, n));
+}
+
+// deps: { geocode(query, limit), loadPois(terms, bbox), loadScbStat(table, requested) }
+export function createChatTools({ geocode, loadPois, loadScbStat }) {
+  const impl = {
+    async geocode({ query }) {
+      if (typeof query !== 'string' || !query.trim()) throw new ToolError('query krävs');
+      const results = await geocode(query.trim(), 5);
+      return { query, results };
+    },
+
+    async search_pois({ category, lat, lon, radius_m, limit }) {
+      const cat = POI_CATEGORIES.find(c => c.id === category);
+      if (!cat) throw new ToolError(`Okänd kategori. Giltiga: ${POI_CATEGORIES.map(c => c.id).join(', ')}`);
+      if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+        throw new ToolError('lat och lon måste vara giltiga WGS84-koordinater');
+      }
+      const radius = Math.max(100, Math.min(MAX_RADIUS_M, Number.isFinite(radius_m) ? radius_m : 1000));
+      const dLat = radius / 111_320;
+      const dLon = radius / (111_320 * Math.cos(lat * Math.PI / 180));
+      const pois = await loadPois(parseTagFilter(cat.filter), {
+        south: lat - dLat, west: lon - dLon, north: lat + dLat, east: lon + dLon,
+      });
+      const nearby = pois
+        .map(p => ({ ...p, distance: distanceMeters(lat, lon, p.lat, p.lon) }))
+        .filter(p => p.distance <= radius)
+        .sort((a, b) => a.distance - b.distance);
+      return {
+        category: cat.label,
+        radius_m: radius,
+        total: nearby.length,
+        pois: nearby.slice(0, clampLimit(limit, 10)).map(p => ({
+          name: p.name || '(namnlös)',
+          lat: p.lat,
+          lon: p.lon,
+          distance_m: Math.round(p.distance),
+          ...(p.tags.cuisine && { cuisine: p.tags.cuisine }),
+          ...(p.tags.opening_hours && { opening_hours: p.tags.opening_hours }),
+        })),
+      };
+    },
+
+    async municipality_stats({ table, county, year, order, limit }) {
+      const preset = SCB_TABLES.find(t => t.id === table);
+      if (!preset) throw new ToolError(`Okänd tabell. Giltiga: ${SCB_TABLES.map(t => t.id).join(', ')}`);
+      let prefix = null;
+      if (county !== undefined && county !== null && county !== '') {
+        prefix = countyCode(county);
+        if (!prefix) throw new ToolError(`Okänt län: ${county}`);
+      }
+
+      const { meta, stat } = await loadScbStat(preset.path, {});
+      const selectedYear = year !== undefined ? String(year) : stat.years[stat.years.length - 1];
+      const yearIndex = stat.years.indexOf(selectedYear);
+      if (yearIndex === -1) throw new ToolError(`År ${selectedYear} saknas. Tillgängliga: ${stat.years[0]}–${stat.years[stat.years.length - 1]}`);
+
+      const rows = Object.entries(municipalityCodes(meta))
+        .filter(([, kod]) => !prefix || kod.startsWith(prefix))
+        .map(([name, kod]) => ({ kod, name, value: stat.kodToSeries[kod]?.[yearIndex] ?? null }))
+        .filter(r => r.value !== null)
+        .sort((a, b) => (order === 'lowest' ? a.value - b.value : b.value - a.value));
+      return {
+        table: preset.label,
+        title: meta.title,
+        unit: stat.unit,
+        year: selectedYear,
+        county: prefix ? COUNTIES[prefix] : 'hela Sverige',
+        order: order === 'lowest' ? 'lägst först' : 'högst först',
+        total: rows.length,
+        municipalities: rows.slice(0, clampLimit(limit, 10)),
+      };
+    },
+  };
+
+  return {
+    definitions: TOOL_DEFINITIONS,
+    // argsJson är modellens argumentsträng; fel i argumenten blir ToolError så att modellen kan försöka igen
+    async run(name, argsJson) {
+      if (!Object.hasOwn(impl, name)) throw new ToolError(`Okänt verktyg: ${name}`);
+      let args;
+      try {
+        args = argsJson ? JSON.parse(argsJson) : {};
+      } catch {
+        throw new ToolError('Argumenten är inte giltig JSON');
+      }
+      return impl[name](args ?? {});
+    },
+  };
+}
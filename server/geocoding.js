@@ -0,0 +1,102 @@
+// Geokodning (sök och omvänd) mot ett Nominatim-kompatibelt HTTP-API.
+// Bas-URL:en är utbytbar: den publika Nominatim, en egen installation eller en stubbe. En annan tjänst
+// (t.ex. Lantmäteriets ortnamn) kopplas in som ett objekt med samma search/reverse och samma svarsform.
+
+import { upstreamFetch } from './metrics.js';
+
+const MAX_QUERY_CHARS = 200;
+const MAX_LIMIT = 10;
+const UPSTREAM_TIMEOUT = 10_000;
+const MAX_QUEUE_WAIT = 10_000; // längre kö än så ger 503 hellre än att förfrågan hänger
+
+export class GeocodeQueryError extends Error {}
+export class GeocoderBusyError extends Error {}
+
+// ?q=&limit= → { query, limit }
+export function parseSearchQuery({ q, limit }) {
+  const query = typeof q === 'string' ? q.trim() : '';
+  if (query.length < 2) throw new GeocodeQueryError('q krävs (minst 2 tecken)');
+  if (query.length > MAX_QUERY_CHARS) throw new GeocodeQueryError(`q får vara högst ${MAX_QUERY_CHARS} tecken`);
+  const n = limit === undefined ? 5 : Number(limit);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_LIMIT) throw new GeocodeQueryError(`limit ska vara 1–${MAX_LIMIT}`);
+  return { query, limit: n };
+}
+
+// ?lat=&lon= → { lat, lon }
+export function parseLatLon({ lat, lon }) {
+  const la = Number(lat);
+  const lo = Number(lon);
+  if (lat === undefined || lon === undefined || !Number.isFinite(la) || !Number.isFinite(lo)) {
+    throw new GeocodeQueryError('lat och lon krävs');
+  }
+  if (Math.abs(la) > 90 || Math.abs(lo) > 180) throw new GeocodeQueryError('Koordinat utanför giltigt intervall');
+  return { lat: la, lon: lo };
+}
+
+// Startar anrop med minst minInterval ms mellanrum (Nominatims policy: högst 1 förfrågan per sekund)
+function createThrottle(minInterval) {
+  let nextStart = 0;
+  return async (fn) => {
+    const now = Date.now();
+    const start = Math.max(now, nextStart);
+    if (start - now > MAX_QUEUE_WAIT) throw new GeocoderBusyError('Geokodaren är upptagen, försök igen strax');
+    nextStart = start + minInterval;
+    if (start > now) await new Promise(resolve => setTimeout(resolve, start - now));
+    return fn();
+  };
+}
+
+// Nominatims adressdelar → gatuadress, ort, kommun och län
+function formatAddress(address = {}) {
+  const street = [address.road ?? address.pedestrian ?? address.footway, address.house_number].filter(Boolean).join(' ');
+  const locality = address.city ?? address.town ?? address.village ?? address.hamlet ?? address.suburb ?? null;
+  return {
+    street: street || null,
+    postcode: address.postcode ?? null,
+    locality,
+    municipality: address.municipality ?? null,
+    county: address.county ?? address.state ?? null,
+  };
+}
+
+// { baseUrl, headers, minInterval, countryCodes } → { search(query, limit, viewbox), reverse(lat, lon) }
+// viewbox = [west, north, east, south] viktar sökningen mot ett område utan att utesluta andra träffar.
+export function createNominatimGeocoder({ baseUrl, headers = {}, minInterval = 1000, countryCodes = 'se' }) {
+  const base = baseUrl.replace(/\/$/, '');
+  const throttle = createThrottle(minInterval);
+
+  async function request(path, params) {
+    return throttle(async () => {
+      const res = await upstreamFetch('nominatim', `${base}/${path}?${new URLSearchParams(params)}`, {
+        headers,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+      });
+      if (!res.ok) throw new Error(`Nominatim HTTP ${res.status}`);
+      return res.json();
+    });
+  }
+
+  return {
+    async search(query, limit = 1, viewbox = null) {
+      const params = { format: 'json', limit: String(limit), q: query };
+      if (countryCodes) params.countrycodes = countryCodes;
+      if (viewbox) params.viewbox = viewbox.map(v => v.toFixed(4)).join(',');
+      const data = await request('search', params);
+      return data.map(r => ({ name: r.display_name, lat: parseFloat(r.lat), lon: parseFloat(r.lon), type: r.type }));
+    },
+
+    // → { name, lat, lon, street, postcode, locality, municipality, county } eller null utanför kartdata
+    async reverse(lat, lon) {
+      const data = await request('reverse', {
+        format: 'jsonv2', lat: String(lat), lon: String(lon), zoom: '18', addressdetails: '1',
+      });
+      if (data.error) return null;
+      return {
+        name: data.display_name,
+        lat: parseFloat(data.lat),
+        lon: parseFloat(data.lon),
+        ...formatAddress(data.address),
+      };
+    },
+  };
+}
@@ -1,47 +1,84 @@
 import express from 'express';
 import helmet from 'helmet';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { createClient } from '@supabase/supabase-js';
+import { parseCapabilities } from './wmtsCapabilities.js';
+import { createTileCache, tileKey, tileRanges } from './tileCache.js';
+import { POI_CATEGORIES, TagFilterError, formatTagFilter, parseTagFilter, toOverpassFilter } from './poiCategories.js';
+import { BboxTooLargeError, createLimiter, tilesForBbox } from './poiTiles.js';
+import { createCache, createFileStore, createSupabaseStore } from './cache.js';
+import {
+  DEFAULT_POLICIES, RateLimitConfigError, createMemoryRateStore, createRateLimiter, createSupabaseRateStore, parsePolicies,
+} from './rateLimit.js';
+import { NotifierConfigError, createNotifier } from './notifier.js';
+import { loadBoundaries, matchReport } from './boundaries.js';
+import {
+  SCB_TABLES, ScbQueryError, fetchScbMetadata, fetchScbSeries, municipalityCodes, resolveSelection, selectionKey,
+  timeVariable,
+} from './scbStats.js';
+import {
+  ChatRequestError, createPlacesStreamParser, createToolCallAccumulator, formatMapContext, parseChatRequest,
+  toModelMessage, truncateHistory,
+} from './chat.js';
+import { ToolError, createChatTools } from './chatTools.js';
+import { createPlaceGrounder } from './placeGrounding.js';
+import {
+  GeocodeQueryError, GeocoderBusyError, createNominatimGeocoder, parseLatLon, parseSearchQuery,
+} from './geocoding.js';
+import { NoRouteError, RouteQueryError, createOsrmRouter, parseMode, parseWaypoints } from './routing.js';
+import { LlmConfigError, createLlmProvider } from './llm.js';
+import { log } from './logger.js';
+import {
+  collected, httpDuration, httpRequests, rateLimitRejections, renderMetrics, upstreamFetch,
+} from './metrics.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const app = express();
 app.use(helmet({ contentSecurityPolicy: false })); // CSP hanteras av Cloudflare
 
-// Supabase persistent cache
+// ── Request-id, åtkomstlogg och HTTP-mätvärden ─────────────────────────────
+// X-Request-Id tas från anroparen (Cloudflare, klienten) eller skapas; det följer med svaret och
+// varje loggrad via req.log. Routen (inte URL:en) blir etikett så att antalet serier hålls litet.
+// Tiles, statiska filer och prober loggas bara på debug-nivå.
+const QUIET_ROUTES = new Set(['/api/wmts', '/api/health', '/api/ready', '/metrics', '*', 'static']);
+
+app.use((req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  req.id = incoming && /^[\w.:-]{1,100}$/.test(incoming) ? incoming : randomUUID();
+  req.log = log.child({ reqId: req.id });
+  res.set('X-Request-Id', req.id);
+
+  const start = performance.now();
+  res.on('close', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'static';
+    const seconds = (performance.now() - start) / 1000;
+    const status = res.writableFinished ? res.statusCode : 499; // 499: klienten stängde först
+    httpRequests.inc({ method: req.method, route, status });
+    httpDuration.observe({ method: req.method, route }, seconds);
+    const level = QUIET_ROUTES.has(route) ? 'debug' : status >= 500 ? 'warn' : 'info';
+    req.log[level]('request', { method: req.method, path: req.path, route, status, ms: Math.round(seconds * 1000) });
+  });
+  next();
+});
+
+// ── Cache ──────────────────────────────────────────────────────────────────
+// L2 för namespaces med persist: Supabase om det är konfigurerat, annars filer om CACHE_STORE=file.
+// CACHE_STORE=none stänger av L2 helt.
 const supabase = process.env.SUPABASE_URL && process.env.SUPABASE_SECRET_KEY
   ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SECRET_KEY)
   : null;
-if (!supabase) console.warn('Supabase not configured — persistent cache disabled');
-
-async function loadFromSupabase(key, ttl) {
-  if (!supabase) return null;
-  try {
-    const { data, error } = await supabase
-      .from('cache_entries')
-      .select('data, fetched_at')
-      .eq('key', key)
-      .single();
-    if (error || !data) return null;
-    if (Date.now() - new Date(data.fetched_at).getTime() > ttl) return null;
-    return data.data;
-  } catch (e) {
-    console.warn('Supabase read error:', e.message);
-    return null;
-  }
-}
+const CACHE_STORE = process.env.CACHE_STORE || (supabase ? 'supabase' : 'none');
+let cacheStore = null;
+if (CACHE_STORE === 'supabase' && supabase) cacheStore = createSupabaseStore(supabase);
+else if (CACHE_STORE === 'file') cacheStore = createFileStore(process.env.CACHE_DIR || join(__dirname, '..', 'data-cache'));
+else if (CACHE_STORE !== 'none') log.warn('Cache store unavailable — persistent cache disabled', { store: CACHE_STORE });
+if (!cacheStore) log.warn('No persistent cache store — cached data is lost on restart');
+const cache = createCache({ store: cacheStore });
 
-async function saveToSupabase(key, data) {
-  if (!supabase) return;
-  try {
-    const { error } = await supabase
-      .from('cache_entries')
-      .upsert({ key, data, fetched_at: new Date().toISOString() });
-    if (error) console.warn('Supabase write error:', error.message);
-  } catch (e) {
-    console.warn('Supabase write error:', e.message);
-  }
-}
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
 
 // CORS — tillåt bara egen domän och localhost (dev)
 const ALLOWED_ORIGINS = new Set(['https://weraryu.com', 'http://localhost:5173', 'http://localhost:3000']);
@@ -51,82 +88,100 @@ app.use((req, res, next) => {
     res.set('Access-Control-Allow-Origin', origin);
     res.set('Access-Control-Allow-Headers', 'Content-Type');
     res.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.set('Access-Control-Expose-Headers', 'RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, X-Request-Id');
   }
   if (req.method === 'OPTIONS') return res.sendStatus(204);
   next();
 });
 
-// Signal-alert — skicka meddelande till ägaren via signal-cli REST
-const SIGNAL_API  = 'http://localhost:8080';
-const SIGNAL_FROM = '+46761696172';
-const SIGNAL_TO   = 'fe98c97f-c11b-4a8f-9a86-02134c90202b';
-const alertCooldowns = new Map(); // undvik spam: max 1 alert per path per 10 min
-
-async function signalAlert(message) {
-  try {
-    await fetch(`${SIGNAL_API}/v2/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ message, number: SIGNAL_FROM, recipients: [SIGNAL_TO] }),
-    });
-  } catch { /* ignorera om signal-cli är nere */ }
+// Driftlarm (se notifier.js); felaktig larmkonfiguration stoppar inte servern
+let notifier;
+try {
+  notifier = createNotifier();
+} catch (e) {
+  if (!(e instanceof NotifierConfigError)) throw e;
+  log.error('Alert config error — alerts go to the log only', { err: e.message });
+  notifier = createNotifier({ ALERT_CHANNELS: 'log' });
 }
-
-// Rate limiter för dyra endpoints
-const rateLimits = new Map();
-function rateLimit(windowMs, max) {
-  return (req, res, next) => {
-    const key = req.ip + req.path;
-    const now = Date.now();
-    const entry = rateLimits.get(key) || { count: 0, resetAt: now + windowMs };
-    if (now > entry.resetAt) { entry.count = 0; entry.resetAt = now + windowMs; }
-    entry.count++;
-    rateLimits.set(key, entry);
-    if (entry.count > max) {
-      // Skicka Signal-alert första gången per 10 min per endpoint
-      const cooldownKey = req.path;
-      const lastAlert = alertCooldowns.get(cooldownKey) || 0;
-      if (now - lastAlert > 10 * 60 * 1000) {
-        alertCooldowns.set(cooldownKey, now);
-        signalAlert(`⚠️ weraryu.com rate limit: ${req.path}\nIP: ${req.ip} (${entry.count} req)`);
-      }
-      return res.status(429).json({ error: 'För många förfrågningar, försök igen senare.' });
-    }
-    next();
-  };
+log.info('Alerts configured', { channels: notifier.channels });
+
+// Rate limits per policy (se rateLimit.js); RATE_LIMIT_STORE=supabase delar dem mellan instanser
+const rateLimitStore = process.env.RATE_LIMIT_STORE === 'supabase' && supabase
+  ? createSupabaseRateStore(supabase)
+  : createMemoryRateStore();
+// Ogiltig RATE_LIMITS stoppar inte servern — standardgränserna gäller då
+let ratePolicies;
+try {
+  ratePolicies = parsePolicies(process.env.RATE_LIMITS);
+} catch (e) {
+  if (!(e instanceof RateLimitConfigError)) throw e;
+  log.error('Rate limit config error — using default policies', { err: e.message });
+  ratePolicies = structuredClone(DEFAULT_POLICIES);
 }
-// Rensa utgångna rate limit-poster varje 10 min (undvik minnesläcka)
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimits) {
-    if (now > entry.resetAt) rateLimits.delete(key);
-  }
-}, 10 * 60 * 1000);
+const rateLimit = createRateLimiter({
+  policies: ratePolicies,
+  store: rateLimitStore,
+  // Räkna varje avvisning; larma första gången per 10 min per policy
+  onLimit: ({ policy, ip, path }) => {
+    rateLimitRejections.inc({ policy });
+    notifier.notify(`⚠️ weraryu.com rate limit: ${path} (${policy})\nIP: ${ip}`, {
+      key: `rate-limit:${policy}`,
+    });
+  },
+});
 
 app.use(express.json());
 
+// Admin-routes kräver ADMIN_TOKEN som bearer-token
+function requireAdmin(req, res, next) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token || req.headers.authorization !== `Bearer ${token}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  next();
+}
+
 const CLIENT_KEY = process.env.LM_CLIENT_KEY;
 const CLIENT_SECRET = process.env.LM_CLIENT_SECRET;
 const TOKEN_URL = 'https://apimanager.lantmateriet.se/oauth2/token';
 const WMTS_BASE = 'https://maps.lantmateriet.se/open/topowebb-ccby/v1/wmts';
 
-let cachedToken = null;
-let tokenExpiry = 0;
-
-// ── Sysselsättning caches ──────────────────────────────────────────────────
-const scbCache = { data: null, ts: 0 };
-const geoCache = { data: null, ts: 0 };
-const SCB_TTL = 24 * 60 * 60 * 1000;        // 24h
-const GEO_TTL = 7 * 24 * 60 * 60 * 1000;   // 7 days
+// Tokenet förnyas 5 min före utgång; vid 401 kastas det och hämtas om
+const tokenCache = cache.namespace('lm-token', { ttl: token => (token.expiresIn - 300) * 1000, maxEntries: 1 });
 
-const SCB_URL = 'https://api.scb.se/OV0104/v1/doris/sv/ssd/AM/AM0210/AM0210D/ArRegArbStatus';
-const GADM_URL = 'https://geodata.ucdavis.edu/gadm/gadm4.1/json/gadm41_SWE_2.json';
-
-async function getToken() {
-  if (cachedToken && Date.now() < tokenExpiry) return cachedToken;
+// ── Lagerkatalog (GetCapabilities) ─────────────────────────────────────────
+const layersCache = cache.namespace('wmts-layers', { ttl: DAY, staleTtl: 30 * DAY, maxEntries: 1, persist: true });
 
+// ── Tile cache på disk ─────────────────────────────────────────────────────
+const TILE_MAX_AGE = Number(process.env.TILE_CACHE_MAX_AGE_DAYS || 30) * 24 * 60 * 60 * 1000;
+const tileCache = createTileCache({
+  dir: process.env.TILE_CACHE_DIR || join(__dirname, '..', 'tile-cache'),
+  maxBytes: Number(process.env.TILE_CACHE_MAX_MB || 2048) * 1024 * 1024,
+});
+tileCache.init().catch(e => log.error('Tile cache init error', { err: e.message }));
+
+// ── Kommunstatistik caches ─────────────────────────────────────────────────
+// SCB uppdaterar tabellerna några gånger per år — gammal data är bättre än ingen när API:t är nere
+const scbMetaCache = cache.namespace('scb-meta', { ttl: DAY, staleTtl: 30 * DAY, maxEntries: 100, persist: true });
+const scbStatCache = cache.namespace('scb', { ttl: DAY, staleTtl: 30 * DAY, maxEntries: 500, persist: true });
+
+// Kommungränser läses en gång vid start; join sker på kommunkod. Filen byggs i förväg och checkas in —
+// saknas den svarar statistikendpoints 503 tills npm run build:kommuner har körts.
+const BOUNDARIES_FILE = join(__dirname, 'data', 'kommuner.geojson');
+let boundaries = null;
+loadBoundaries(BOUNDARIES_FILE)
+  .then(b => {
+    boundaries = b;
+    log.info('Boundaries loaded', { municipalities: b.byKod.size, file: BOUNDARIES_FILE });
+  })
+  .catch(e => log.error(
+    e.code === 'ENOENT' ? 'Boundaries file missing — run npm run build:kommuner' : 'Boundaries file invalid',
+    { file: BOUNDARIES_FILE, err: e.message },
+  ));
+
+async function fetchToken() {
   const creds = Buffer.from(`${CLIENT_KEY}:${CLIENT_SECRET}`).toString('base64');
-  const res = await fetch(TOKEN_URL, {
+  const res = await upstreamFetch('lantmateriet-auth', TOKEN_URL, {
     method: 'POST',
     headers: {
       'Authorization': `Basic ${creds}`,
@@ -135,89 +190,325 @@ async function getToken() {
     body: 'grant_type=client_credentials',
   });
 
-  const data = await res.json();
-  cachedToken = data.access_token;
-  // Refresh 5 min before expiry
-  tokenExpiry = Date.now() + (data.expires_in - 300) * 1000;
-  return cachedToken;
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data?.access_token) throw new Error(`Lantmäteriet token HTTP ${res.status}`);
+  return { accessToken: data.access_token, expiresIn: data.expires_in };
+}
+
+async function getToken() {
+  const { accessToken } = await tokenCache.get('token', fetchToken);
+  return accessToken;
+}
+
+// Fetch from Lantmäteriet with a bearer token; on 401 refresh the token and retry once
+async function fetchLm(url) {
+  const token = await getToken();
+  const res = await upstreamFetch('lantmateriet', url, { headers: { 'Authorization': `Bearer ${token}` } });
+  if (res.status !== 401) return res;
+
+  await tokenCache.delete('token');
+  const newToken = await getToken();
+  return upstreamFetch('lantmateriet', url, { headers: { 'Authorization': `Bearer ${newToken}` } });
+}
+
+// WMTS KVP-parametrar är skiftlägesokänsliga — normalisera till gemener
+function wmtsParams(query) {
+  const params = {};
+  for (const [k, v] of Object.entries(query)) params[k.toLowerCase()] = String(v);
+  return params;
+}
+
+function wmtsTileKey(query) {
+  const p = wmtsParams(query);
+  if ((p.request || '').toLowerCase() !== 'gettile') return null;
+  return tileKey({
+    layer: p.layer, style: p.style, matrixSet: p.tilematrixset, format: p.format,
+    z: p.tilematrix, x: p.tilecol, y: p.tilerow,
+  });
+}
+
+function sendTile(req, res, tile, cacheStatus) {
+  res.set('ETag', tile.etag);
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.set('X-Tile-Cache', cacheStatus);
+  if (req.headers['if-none-match'] === tile.etag) return res.sendStatus(304);
+  res.set('Content-Type', tile.contentType);
+  res.send(tile.buffer);
+}
+
+// Färska tiles från disk-cachen serveras före rate limitern — bara upstream-trafik räknas
+async function serveCachedTile(req, res, next) {
+  const key = wmtsTileKey(req.query);
+  if (!key) return next();
+  try {
+    const tile = await tileCache.get(key);
+    if (tile && tile.age < TILE_MAX_AGE) return sendTile(req, res, tile, 'HIT');
+    res.locals.staleTile = tile;
+  } catch (e) {
+    req.log.warn('Tile cache read error', { err: e.message });
+  }
+  next();
 }
 
 // Proxy all WMTS requests (KVP and REST)
-app.get('/api/wmts', rateLimit(60 * 1000, 120), async (req, res) => {
+app.get('/api/wmts', serveCachedTile, rateLimit('wmts'), async (req, res) => {
+  const stale = res.locals.staleTile;
   try {
-    const token = await getToken();
     const qs = new URLSearchParams(req.query).toString();
     const url = `${WMTS_BASE}?${qs}`;
-    console.log('WMTS proxy:', url);
-
-    const wmtsRes = await fetch(url, {
-      headers: { 'Authorization': `Bearer ${token}` },
-    });
-
-    if (wmtsRes.status === 401) {
-      // Token expired, force refresh and retry once
-      cachedToken = null;
-      tokenExpiry = 0;
-      const newToken = await getToken();
-      const retryRes = await fetch(url, {
-        headers: { 'Authorization': `Bearer ${newToken}` },
-      });
-      if (!retryRes.ok) {
-        console.log('WMTS error after retry:', retryRes.status);
-        return res.status(retryRes.status).send('WMTS request failed');
-      }
-      const ct = retryRes.headers.get('content-type') || 'application/octet-stream';
-      res.set('Content-Type', ct);
-      res.set('Cache-Control', 'public, max-age=86400');
-      const buf = Buffer.from(await retryRes.arrayBuffer());
-      return res.send(buf);
-    }
+    req.log.debug('WMTS proxy', { url });
 
+    const wmtsRes = await fetchLm(url);
     if (!wmtsRes.ok) {
-      console.log('WMTS error:', wmtsRes.status);
+      req.log.warn('WMTS error', { status: wmtsRes.status });
+      if (stale) return sendTile(req, res, stale, 'STALE');
       return res.status(wmtsRes.status).send('WMTS request failed');
     }
 
     const contentType = wmtsRes.headers.get('content-type') || 'application/octet-stream';
+    const buffer = Buffer.from(await wmtsRes.arrayBuffer());
+    const key = wmtsTileKey(req.query);
+    if (key && contentType.startsWith('image/')) {
+      const etag = await tileCache.put(key, buffer, contentType);
+      return sendTile(req, res, { buffer, etag, contentType }, 'MISS');
+    }
+
     res.set('Content-Type', contentType);
     res.set('Cache-Control', 'public, max-age=86400');
-    const buffer = Buffer.from(await wmtsRes.arrayBuffer());
     res.send(buffer);
   } catch (e) {
+    if (stale) return sendTile(req, res, stale, 'STALE');
     res.status(500).json({ error: e.message });
   }
 });
 
-// POI categories → Overpass tags
-const POI_CATEGORIES = {
-  restauranger: { key: 'amenity', value: 'restaurant' },
-  kafeer: { key: 'amenity', value: 'cafe' },
-  parker: { key: 'leisure', value: 'park' },
-  laddstationer: { key: 'amenity', value: 'charging_station' },
-  busshallplatser: { key: 'highway', value: 'bus_stop' },
-};
+async function getCapabilities() {
+  return layersCache.get('capabilities', async () => {
+    const capsRes = await fetchLm(`${WMTS_BASE}?service=WMTS&request=GetCapabilities&version=1.0.0`);
+    if (!capsRes.ok) throw new Error(`GetCapabilities HTTP ${capsRes.status}`);
+    const data = parseCapabilities(await capsRes.text());
+    log.info('WMTS catalogue loaded', { layers: data.layers.length });
+    return data;
+  });
+}
+
+// Layer catalogue parsed from WMTS GetCapabilities (cached 24h)
+app.get('/api/layers', async (req, res) => {
+  try {
+    const catalogue = await getCapabilities();
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json(catalogue);
+  } catch (e) {
+    req.log.error('Layer catalogue error', { err: e.message });
+    res.status(502).json({ error: e.message });
+  }
+});
+
+// ── Förladdning av tiles för offline-bruk ──────────────────────────────────
+const SEED_MAX_TILES = 50000;
+const SEED_CONCURRENCY = 4;
+const seedJobs = new Map();
+let nextSeedId = 1;
+
+async function runSeedJob(job, layer, tms, ranges) {
+  const queue = [];
+  for (const r of ranges) {
+    for (let x = r.minCol; x <= r.maxCol; x++) {
+      for (let y = r.minRow; y <= r.maxRow; y++) queue.push({ z: r.matrixId, x, y });
+    }
+  }
+  const format = layer.formats.includes('image/png') ? 'image/png' : layer.formats[0];
+
+  async function worker() {
+    while (queue.length > 0 && job.status === 'running') {
+      const { z, x, y } = queue.shift();
+      const key = tileKey({ layer: layer.id, style: layer.style, matrixSet: tms.id, format, z, x, y });
+      if (!key) {
+        // Lager-, stil- eller formatnamn som inte går att lagra — att hämta tilen vore bortkastat
+        job.failed++;
+        job.lastError = `Kan inte cachas: ${layer.id} ${format}`;
+        continue;
+      }
+      if (tileCache.has(key)) {
+        job.skipped++;
+        continue;
+      }
+      const qs = new URLSearchParams({
+        Service: 'WMTS', Request: 'GetTile', Version: '1.0.0', layer: layer.id, style: layer.style,
+        tilematrixset: tms.id, Format: format, TileMatrix: z, TileCol: String(x), TileRow: String(y),
+      });
+      try {
+        const tileRes = await fetchLm(`${WMTS_BASE}?${qs}`);
+        if (!tileRes.ok) throw new Error(`HTTP ${tileRes.status}`);
+        const contentType = tileRes.headers.get('content-type') || format;
+        await tileCache.put(key, Buffer.from(await tileRes.arrayBuffer()), contentType);
+        job.fetched++;
+      } catch (e) {
+        job.failed++;
+        job.lastError = e.message;
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: SEED_CONCURRENCY }, worker));
+  if (job.status === 'running') job.status = 'done';
+  job.finishedAt = new Date().toISOString();
+  log.info('Tile seed finished', {
+    job: job.id, status: job.status, fetched: job.fetched, skipped: job.skipped, failed: job.failed,
+  });
+}
+
+// POST { layer, matrixSet, bbox: [west, south, east, north], minZoom, maxZoom }
+app.post('/api/admin/tiles/seed', requireAdmin, async (req, res) => {
+  try {
+    const { layer: layerId = 'topowebb', matrixSet = '3857', bbox, minZoom = 0, maxZoom } = req.body;
+    if (!Array.isArray(bbox) || bbox.length !== 4 || bbox.some(v => typeof v !== 'number')) {
+      return res.status(400).json({ error: 'bbox måste vara [west, south, east, north]' });
+    }
+    if (!Number.isInteger(minZoom) || !Number.isInteger(maxZoom) || minZoom > maxZoom) {
+      return res.status(400).json({ error: 'minZoom/maxZoom måste vara heltal med minZoom <= maxZoom' });
+    }
+
+    const { layers } = await getCapabilities();
+    const layer = layers.find(l => l.id === layerId);
+    const tms = layer?.matrixSets.find(m => m.id === matrixSet);
+    if (!layer || !tms) return res.status(400).json({ error: `Okänt lager/matrixSet: ${layerId}/${matrixSet}` });
+
+    const ranges = tileRanges(tms, bbox, minZoom, maxZoom);
+    const total = ranges.reduce((n, r) => n + (r.maxCol - r.minCol + 1) * (r.maxRow - r.minRow + 1), 0);
+    if (total > SEED_MAX_TILES) {
+      return res.status(400).json({ error: `För många tiles (${total}), max ${SEED_MAX_TILES}` });
+    }
+
+    const job = {
+      id: nextSeedId++, layer: layerId, matrixSet, bbox, minZoom, maxZoom, total,
+      fetched: 0, skipped: 0, failed: 0, status: 'running', startedAt: new Date().toISOString(),
+    };
+    seedJobs.set(job.id, job);
+    runSeedJob(job, layer, tms, ranges);
+    res.status(202).json(job);
+  } catch (e) {
+    req.log.error('Tile seed error', { err: e.message });
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.get('/api/admin/tiles', requireAdmin, (_req, res) => {
+  res.json({ cache: tileCache.stats(), jobs: [...seedJobs.values()] });
+});
+
+app.delete('/api/admin/tiles/seed/:id', requireAdmin, (req, res) => {
+  const job = seedJobs.get(Number(req.params.id));
+  if (!job) return res.status(404).json({ error: 'Okänt jobb' });
+  if (job.status === 'running') job.status = 'cancelled';
+  res.json(job);
+});
+
+// Träffar, missar och storlek per cache-namespace
+app.get('/api/admin/cache', requireAdmin, (_req, res) => {
+  res.json(cache.stats());
+});
+
+// Töm ett namespace i både L1 och L2 — nästa förfrågan hämtar från upstream
+app.delete('/api/admin/cache/:namespace', requireAdmin, async (req, res) => {
+  const ns = cache.get(req.params.namespace);
+  if (!ns) return res.status(404).json({ error: `Okänt namespace: ${req.params.namespace}` });
+  const purged = await ns.purge();
+  req.log.info('Cache purged', { namespace: ns.name, purged });
+  res.json({ namespace: ns.name, purged });
+});
+
+// POI category registry — the client builds its POI bar from this
+app.get('/api/poi-categories', (_req, res) => {
+  res.set('Cache-Control', 'public, max-age=3600');
+  res.json(POI_CATEGORIES);
+});
+
+// Validera ett eget taggfilter innan klienten sparar det som kategori
+app.get('/api/poi-categories/validate', (req, res) => {
+  try {
+    res.json({ filter: formatTagFilter(parseTagFilter(req.query.filter)) });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
 
 const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
-const poiCache = new Map();
-const POI_CACHE_TTL = 5 * 60 * 1000; // 5 min
+const poiTileCache = cache.namespace('poi', { ttl: 5 * 60 * 1000, staleTtl: 6 * HOUR, maxEntries: 2000 });
+const overpassLimit = createLimiter(2); // Overpass tillåter få samtidiga anrop per IP
 
-app.get('/api/pois', rateLimit(60 * 1000, 60), async (req, res) => {
+// Fetch one grid tile for a tag filter; returns POIs with a centroid for ways/relations
+async function fetchPoiTile(terms, tile) {
+  // nwr: parker och byggnader är oftast ways/relations — out center ger en mittpunkt för dem
+  const query = `[out:json][timeout:10];nwr${toOverpassFilter(terms)}(${tile.south},${tile.west},${tile.north},${tile.east});out tags center;`;
+
+  const overpassRes = await overpassLimit(() => upstreamFetch('overpass', OVERPASS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `data=${encodeURIComponent(query)}`,
+  }));
+
+  if (!overpassRes.ok) {
+    throw new Error(`Overpass HTTP ${overpassRes.status}`);
+  }
+
+  const data = await overpassRes.json();
+  return (data.elements || [])
+    .map(el => ({
+      id: el.id,
+      type: el.type,
+      name: el.tags?.name || '',
+      lat: el.lat ?? el.center?.lat,
+      lon: el.lon ?? el.center?.lon,
+      tags: el.tags || {},
+    }))
+    .filter(poi => poi.lat !== undefined && poi.lon !== undefined);
+}
+
+// POI:er inom bbox för ett taggfilter. Kastar BboxTooLargeError för för stora områden.
+async function loadPois(terms, { south, west, north, east }) {
+  const tiles = tilesForBbox({ south, west, north, east });
+
+  // En cachepost per filter och ruta; samtidiga förfrågningar delar samma Overpass-anrop
+  const filterKey = formatTagFilter(terms);
+  const results = await Promise.all(tiles.map(tile =>
+    poiTileCache.get(`${filterKey}:${tile.id}`, () => fetchPoiTile(terms, tile))));
+
+  // Slå ihop rutorna, deduplicera på OSM-id (ways kan ha centroid i en grannruta) och klipp till bbox
+  const seen = new Set();
+  const pois = [];
+  for (const poi of results.flat()) {
+    const key = `${poi.type}/${poi.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (poi.lat >= south && poi.lat <= north && poi.lon >= west && poi.lon <= east) pois.push(poi);
+  }
+  return pois;
+}
+
+app.get('/api/pois', rateLimit('pois'), async (req, res) => {
   try {
-    const { category, bbox } = req.query;
-    const cat = POI_CATEGORIES[category];
-    if (!cat) {
-      return res.status(400).json({ error: `Unknown category. Valid: ${Object.keys(POI_CATEGORIES).join(', ')}` });
+    // Antingen en registrerad kategori eller ett eget taggfilter, t.ex. filter=[amenity=fuel][fuel:hydrogen=yes]
+    const { category, filter, bbox } = req.query;
+    let terms;
+    if (filter !== undefined) {
+      try {
+        terms = parseTagFilter(filter);
+      } catch (e) {
+        if (e instanceof TagFilterError) return res.status(400).json({ error: e.message });
+        throw e;
+      }
+    } else {
+      const cat = POI_CATEGORIES.find(c => c.id === category);
+      if (!cat) {
+        return res.status(400).json({ error: `Unknown category. Valid: ${POI_CATEGORIES.map(c => c.id).join(', ')}` });
+      }
+      terms = parseTagFilter(cat.filter);
     }
     if (!bbox) {
       return res.status(400).json({ error: 'bbox required (south,west,north,east)' });
     }
 
-    const cacheKey = `${category}:${bbox}`;
-    const cached = poiCache.get(cacheKey);
-    if (cached && Date.now() - cached.time < POI_CACHE_TTL) {
-      return res.json(cached.data);
-    }
-
     // Validera bbox — 4 decimaltal inom giltiga lat/lon-intervall
     const parts = bbox.split(',');
     if (parts.length !== 4) return res.status(400).json({ error: 'bbox måste ha exakt 4 värden' });
@@ -226,48 +517,99 @@ app.get('/api/pois', rateLimit(60 * 1000, 60), async (req, res) => {
     if (south < -90 || north > 90 || south >= north) return res.status(400).json({ error: 'Ogiltiga latitudvärden i bbox' });
     if (west < -180 || east > 180) return res.status(400).json({ error: 'Ogiltiga longitudvärden i bbox' });
 
-    const query = `[out:json][timeout:10];node["${cat.key}"="${cat.value}"](${south},${west},${north},${east});out body;`;
-
-    const overpassRes = await fetch(OVERPASS_URL, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: `data=${encodeURIComponent(query)}`,
-    });
-
-    if (!overpassRes.ok) {
-      console.log('Overpass error:', overpassRes.status);
+    try {
+      res.json(await loadPois(terms, { south, west, north, east }));
+    } catch (e) {
+      if (e instanceof BboxTooLargeError) return res.status(400).json({ error: e.message });
+      req.log.warn('POI tile error', { err: e.message });
       return res.status(502).json({ error: 'Overpass API error' });
     }
+  } catch (e) {
+    req.log.error('POI fetch error', { err: e.message });
+    res.status(500).json({ error: e.message });
+  }
+});
 
-    const data = await overpassRes.json();
-    const pois = (data.elements || []).map(el => ({
-      id: el.id,
-      name: el.tags?.name || '',
-      lat: el.lat,
-      lon: el.lon,
-      tags: el.tags || {},
-    }));
+// ── Geokodning ──────────────────────────────────────────────────────────
+// GEOCODER_URL pekar på valfri Nominatim-kompatibel tjänst (eller stubbe). Den publika Nominatim tillåter
+// högst en förfrågan per sekund; GEOCODER_MIN_INTERVAL_MS=0 för en egen installation.
+const geocoder = createNominatimGeocoder({
+  baseUrl: process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org',
+  headers: { 'User-Agent': 'SverigeKarta/1.0', 'Accept-Language': 'sv' },
+  minInterval: process.env.GEOCODER_MIN_INTERVAL_MS !== undefined ? Number(process.env.GEOCODER_MIN_INTERVAL_MS) : 1000,
+});
+// Ortnamn och adresser ändras sällan
+const geocodeCache = cache.namespace('geocode', { ttl: DAY, staleTtl: 7 * DAY, maxEntries: 5000 });
+
+// Sökning med delad cache — används av /api/geocode, chattens verktyg och platsförankringen.
+// viewbox avrundas så att närliggande förfrågningar delar cachepost.
+async function geocodeSearch(query, limit = 1, viewbox = null) {
+  const box = viewbox?.map(v => Math.round(v * 100) / 100) ?? null;
+  const key = `search:${limit}:${box?.join(',') ?? ''}:${query.toLowerCase()}`;
+  return geocodeCache.get(key, () => geocoder.search(query, limit, box));
+}
 
-    poiCache.set(cacheKey, { time: Date.now(), data: pois });
+// Omvänd geokodning på ~10 m noggrannhet så att klick nära varandra delar cachepost
+async function geocodeReverse(lat, lon) {
+  const [la, lo] = [lat, lon].map(v => Math.round(v * 1e4) / 1e4);
+  return geocodeCache.get(`reverse:${la},${lo}`, () => geocoder.reverse(la, lo));
+}
 
-    // Evict old cache entries
-    if (poiCache.size > 200) {
-      const now = Date.now();
-      for (const [k, v] of poiCache) {
-        if (now - v.time > POI_CACHE_TTL) poiCache.delete(k);
-      }
-    }
+function geocodeErrorStatus(req, e) {
+  if (e instanceof GeocoderBusyError) return 503;
+  req.log.error('Geocode error', { err: e.message });
+  return 502;
+}
 
-    res.json(pois);
+// ?q=Vasamuseet&limit=5 → { results: [{ name, lat, lon, type }] }
+app.get('/api/geocode', rateLimit('geocode'), async (req, res) => {
+  let query, limit;
+  try {
+    ({ query, limit } = parseSearchQuery(req.query));
   } catch (e) {
-    console.error('POI fetch error:', e.message);
-    res.status(500).json({ error: e.message });
+    if (e instanceof GeocodeQueryError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+  try {
+    res.json({ results: await geocodeSearch(query, limit) });
+  } catch (e) {
+    res.status(geocodeErrorStatus(req, e)).json({ error: e.message });
+  }
+});
+
+// ?lat=59.33&lon=18.07 → { name, lat, lon, street, postcode, locality, municipality, county }
+app.get('/api/reverse', rateLimit('reverse'), async (req, res) => {
+  let lat, lon;
+  try {
+    ({ lat, lon } = parseLatLon(req.query));
+  } catch (e) {
+    if (e instanceof GeocodeQueryError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+  try {
+    const place = await geocodeReverse(lat, lon);
+    if (!place) return res.status(404).json({ error: 'Ingen adress hittades här' });
+    res.json(place);
+  } catch (e) {
+    res.status(geocodeErrorStatus(req, e)).json({ error: e.message });
   }
 });
 
 // AI Chat endpoint
-const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
-const CHAT_MODEL = 'google/gemini-2.5-flash';
+// Leverantör och modell väljs med LLM_PROVIDER/LLM_MODEL (se llm.js). Felaktig konfiguration stoppar
+// inte servern — chatten svarar 503 med orsaken medan resten av API:t fungerar.
+let llm = null;
+let llmConfigError = null;
+try {
+  llm = await createLlmProvider();
+  log.info('LLM configured', { provider: llm.name, model: llm.model });
+} catch (e) {
+  if (!(e instanceof LlmConfigError)) throw e;
+  llmConfigError = e.message;
+  log.error('LLM not configured', { err: e.message });
+}
+
+const CHAT_TOKEN_BUDGET = 6000; // historik som skickas med; äldsta meddelandena faller bort först
 
 const SYSTEM_PROMPT = `Du är en kunnig guide för Sverige och Norden. Användaren ställer frågor om platser, sevärdheter, historiska händelser och geografi.
 
@@ -282,216 +624,344 @@ Regler:
 - Inkludera alltid minst en plats med koordinater
 - Koordinaterna ska vara korrekta WGS84 (lat/lon)
 - Ge en informativ textbeskrivning utöver platserna
-- Om frågan handlar om flera platser, inkludera alla relevanta platser i JSON-blocket`;
+- Om frågan handlar om flera platser, inkludera alla relevanta platser i JSON-blocket
 
-app.post('/api/chat', rateLimit(60 * 60 * 1000, 20), async (req, res) => {
-  try {
-    const { message } = req.body;
-    if (!message) {
-      return res.status(400).json({ error: 'message required' });
-    }
-    if (typeof message !== 'string' || message.length > 2000) {
-      return res.status(400).json({ error: 'Meddelandet får vara max 2000 tecken.' });
-    }
+Verktyg:
+- Använd verktygen när frågan gäller faktiska data i stället för att svara ur minnet
+- geocode ger koordinater för en namngiven plats; använd den före search_pois ("kaféer nära Vasamuseet")
+- search_pois hittar verksamheter av en kategori runt en punkt
+- municipality_stats rangordnar kommuner efter SCB-statistik, valfritt inom ett län
+- Basera svaret och places-blocket på verktygens resultat och nämn källan (OpenStreetMap, SCB)`;
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey || apiKey === 'your-openrouter-api-key-here') {
-      return res.status(500).json({ error: 'OPENROUTER_API_KEY not configured' });
-    }
+// AI:ns platser förankras mot geokodaren innan de skickas till klienten (se placeGrounding.js)
+const groundPlaces = createPlaceGrounder({ search: geocodeSearch });
 
-    console.log('Chat request:', message.substring(0, 80));
+const chatTools = createChatTools({ geocode: geocodeSearch, loadPois, loadScbStat });
+const MAX_TOOL_ROUNDS = 4; // därefter måste modellen svara utan fler verktygsanrop
 
-    const response = await fetch(OPENROUTER_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: CHAT_MODEL,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: message },
-        ],
-      }),
-    });
+function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
-    if (!response.ok) {
-      const errText = await response.text();
-      console.error('OpenRouter error:', response.status, errText);
-      return res.status(502).json({ error: 'AI API error' });
-    }
+// Body: { messages: [{ role, content, places? }], context: { bbox, zoom, layers, selected } }
+// Svaret strömmas som SSE: delta (text), tool_call/tool_result (verktygsspår), places (när blocket är
+// komplett och rättat), done, error. Modellen kan anropa verktyg i flera omgångar innan den svarar.
+app.post('/api/chat', rateLimit('chat'), async (req, res) => {
+  let messages, context;
+  try {
+    ({ messages, context } = parseChatRequest(req.body));
+  } catch (e) {
+    if (e instanceof ChatRequestError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
+  if (!llm) return res.status(503).json({ error: `AI-chatten är inte konfigurerad: ${llmConfigError}` });
+
+  const history = truncateHistory(messages, CHAT_TOKEN_BUDGET);
+  const contextText = formatMapContext(context);
+  req.log.info('Chat request', { messages: messages.length, sent: history.length });
+  req.log.debug('Chat prompt', { prompt: messages[messages.length - 1].content.substring(0, 80) });
+
+  // Klienten kan stänga panelen mitt i svaret — avbryt då anropet till modellen
+  const upstream = new AbortController();
+  res.on('close', () => upstream.abort());
+
+  const modelMessages = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...(contextText ? [{ role: 'system', content: contextText }] : []),
+    ...history.map(toModelMessage),
+  ];
+
+  let text = '';
+  const placeLists = [];
+  const pendingPlaces = [];
+  const parser = createPlacesStreamParser({
+    onText: (delta) => {
+      text += delta;
+      sendEvent(res, 'delta', { text: delta });
+    },
+    onPlaces: (places) => {
+      pendingPlaces.push(groundPlaces(places).then(grounded => {
+        placeLists.push(grounded);
+        sendEvent(res, 'places', { places: grounded });
+      }));
+    },
+  });
 
-    // Parse out places JSON block
-    let places = [];
-    let text = content;
-    const placesMatch = content.match(/```places\s*\n([\s\S]*?)\n```/);
-    if (placesMatch) {
+  try {
+    for (let round = 0; ; round++) {
+      const stream = llm.streamChat({
+        messages: modelMessages,
+        tools: round < MAX_TOOL_ROUNDS ? chatTools.definitions : undefined,
+        signal: upstream.signal,
+      });
+      // Första deltat hämtas innan SSE-huvudet skickas så att ett fel hos leverantören kan bli HTTP 502
+      let first;
       try {
-        places = JSON.parse(placesMatch[1]);
+        first = await stream.next();
       } catch (e) {
-        console.error('Failed to parse places JSON:', e.message);
+        if (upstream.signal.aborted) throw e;
+        req.log.error('LLM error', { provider: llm.name, err: e.message });
+        if (!res.headersSent) return res.status(502).json({ error: 'AI API error' });
+        throw new Error('AI API error');
+      }
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
       }
-      // Remove the places block from displayed text
-      text = content.replace(/```places\s*\n[\s\S]*?\n```/, '').trim();
-    }
 
-    // Verify/correct coordinates via Nominatim
-    if (places.length > 0) {
-      const corrected = await Promise.all(places.map(async (place) => {
+      let content = '';
+      const calls = createToolCallAccumulator();
+      for (let step = first; !step.done; step = await stream.next()) {
+        const delta = step.value;
+        if (delta.content) {
+          content += delta.content;
+          parser.push(delta.content);
+        }
+        if (delta.tool_calls) calls.push(delta.tool_calls);
+      }
+
+      const toolCalls = calls.list();
+      if (toolCalls.length === 0) break;
+
+      modelMessages.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const { name, arguments: args } = call.function;
+        sendEvent(res, 'tool_call', { id: call.id, name, arguments: args });
+        let result;
         try {
-          const q = encodeURIComponent(place.name);
-          const nomRes = await fetch(
-            `https://nominatim.openstreetmap.org/search?format=json&countrycodes=se&limit=1&q=${q}`,
-            { headers: { 'User-Agent': 'SverigeKarta/1.0', 'Accept-Language': 'sv' } }
-          );
-          const nomData = await nomRes.json();
-          if (nomData.length > 0) {
-            const correctedLat = parseFloat(nomData[0].lat);
-            const correctedLon = parseFloat(nomData[0].lon);
-            console.log(`Corrected "${place.name}": ${place.lat},${place.lon} → ${correctedLat},${correctedLon}`);
-            return { ...place, lat: correctedLat, lon: correctedLon };
-          }
+          result = await chatTools.run(name, args);
         } catch (e) {
-          console.error(`Nominatim lookup failed for "${place.name}":`, e.message);
+          if (!(e instanceof ToolError)) req.log.error('Chat tool error', { tool: name, err: e.message });
+          result = { error: e.message };
         }
-        return place; // keep AI coordinates as fallback
-      }));
-      places = corrected;
+        sendEvent(res, 'tool_result', { id: call.id, result });
+        modelMessages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+      }
     }
 
-    res.json({ text, places });
+    parser.end();
+    await Promise.all(pendingPlaces);
+    sendEvent(res, 'done', { text: text.trim(), places: placeLists.flat() });
   } catch (e) {
-    console.error('Chat error:', e.message);
-    res.status(500).json({ error: e.message });
+    if (!upstream.signal.aborted) {
+      req.log.error('Chat stream error', { err: e.message });
+      sendEvent(res, 'error', { error: 'AI-svaret avbröts' });
+    }
   }
+  res.end();
 });
 
-// ── GET /api/kommuner-sysselsattning ─────────────────────────────────────
-app.get('/api/kommuner-sysselsattning', async (_req, res) => {
+// ── Kommunstatistik från SCB ─────────────────────────────────────────────
+async function getScbMetadata(path) {
+  return scbMetaCache.get(path, () => fetchScbMetadata(path));
+}
+
+// Tabell + variabelval → { meta, selection, time, stat: { years, kodToSeries, unit } }
+async function loadScbStat(table, requested) {
+  const meta = await getScbMetadata(table);
+  const preset = SCB_TABLES.find(t => t.path === table);
+  const selection = resolveSelection(meta, requested, preset?.defaults);
+  const key = selectionKey(table, meta, selection);
+
+  const stat = await scbStatCache.get(key, async () => {
+    const { years, kodToSeries, unit } = await fetchScbSeries(table, meta, selection);
+    log.info('SCB data loaded', { key, series: Object.keys(kodToSeries).length, years: years.length });
+    return { years, kodToSeries, unit };
+  });
+  const time = timeVariable(meta);
+  // Valt år kan ligga utanför den hämtade serien om den kortats av celltaket
+  if (!stat.years.includes(selection[time.code])) selection[time.code] = stat.years[stat.years.length - 1];
+  return { meta, selection, time, stat };
+}
+
+function requireBoundaries(_req, res, next) {
+  if (!boundaries) return res.status(503).json({ error: 'Kommungränser är inte inlästa' });
+  next();
+}
+
+function scbErrorStatus(e) {
+  return e instanceof ScbQueryError ? 400 : 500;
+}
+
+app.get('/api/kommuner-stat/tables', (_req, res) => {
+  res.json(SCB_TABLES.map(({ id, label, path }) => ({ id, label, path })));
+});
+
+// Variabler och värden för panelen (Region utelämnas — kartan visar alltid alla kommuner)
+app.get('/api/kommuner-stat/meta', rateLimit('stat'), async (req, res) => {
   try {
-    // 1. SCB metadata + data (cached 24h)
-    let nameToKod, kodToValue;
-    if (scbCache.data && Date.now() - scbCache.ts < SCB_TTL) {
-      ({ nameToKod, kodToValue } = scbCache.data);
-    } else {
-      // Try Supabase persistent cache before hitting SCB
-      const sbHit = await loadFromSupabase('scb_sysselsattning_2024', SCB_TTL);
-      if (sbHit) {
-        ({ nameToKod, kodToValue } = sbHit);
-        scbCache.data = sbHit;
-        scbCache.ts = Date.now();
-        console.log('SCB: restored from Supabase cache');
-      } else {
-        // GET metadata → build nameToKod (kommunnamn → 4-siffrig kod)
-        const metaRes = await fetch(SCB_URL);
-        if (!metaRes.ok) throw new Error(`SCB metadata HTTP ${metaRes.status}`);
-        const meta = await metaRes.json();
-
-        const regionVar = meta.variables.find(v => v.code === 'Region');
-        if (!regionVar) throw new Error('SCB: Region variable not found in metadata');
-
-        nameToKod = {};
-        const municipalityCodes = [];
-        regionVar.values.forEach((kod, i) => {
-          if (/^\d{4}$/.test(kod)) {          // 4-digit codes = municipalities
-            nameToKod[regionVar.valueTexts[i]] = kod;
-            municipalityCodes.push(kod);
-          }
-        });
-        console.log(`SCB metadata: ${municipalityCodes.length} municipalities found`);
-
-        // POST data → sysselsättningsgrad per municipality
-        const scbQuery = {
-          query: [
-            { code: 'Region',        selection: { filter: 'item', values: municipalityCodes } },
-            { code: 'Kon',           selection: { filter: 'item', values: ['1+2'] } },
-            { code: 'Alder',         selection: { filter: 'item', values: ['16-64'] } },
-            { code: 'Fodelseregion', selection: { filter: 'item', values: ['tot'] } },
-            { code: 'ContentsCode',  selection: { filter: 'item', values: ['000002NS'] } },
-            { code: 'Tid',           selection: { filter: 'item', values: ['2024'] } },
-          ],
-          response: { format: 'json' },
-        };
-
-        const dataRes = await fetch(SCB_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(scbQuery),
-        });
-        if (!dataRes.ok) {
-          const errText = await dataRes.text();
-          throw new Error(`SCB data HTTP ${dataRes.status}: ${errText.slice(0, 200)}`);
-        }
-        const scbData = await dataRes.json();
+    const table = String(req.query.table || '');
+    const meta = await getScbMetadata(table);
+    const preset = SCB_TABLES.find(t => t.path === table);
+    res.json({
+      table,
+      title: meta.title,
+      variables: meta.variables.filter(v => v.code !== 'Region'),
+      selection: resolveSelection(meta, {}, preset?.defaults),
+    });
+  } catch (e) {
+    req.log.error('SCB meta error', { err: e.message });
+    res.status(scbErrorStatus(e)).json({ error: e.message });
+  }
+});
 
-        kodToValue = {};
-        for (const row of (scbData.data || [])) {
-          const kod = row.key[0];
-          const value = parseFloat(row.values[0]);
-          if (!isNaN(value)) kodToValue[kod] = value;
-        }
-        console.log(`SCB data: ${Object.keys(kodToValue).length} values loaded`);
+// ?table=AM/AM0210/AM0210D/ArRegArbStatus&ContentsCode=000002NS&Tid=2024&Kon=1%2B2 …
+// Övriga query-parametrar är variabelval; utelämnade variabler får tabellens default.
+// Svaret innehåller alla år som en serie per kommun; tidsvalet anger bara vilket år som visas först.
+app.get('/api/kommuner-stat', requireBoundaries, rateLimit('stat'), async (req, res) => {
+  try {
+    const { table: rawTable, ...requested } = req.query;
+    const table = String(rawTable || '');
 
-        scbCache.data = { nameToKod, kodToValue };
-        scbCache.ts = Date.now();
-        await saveToSupabase('scb_sysselsattning_2024', { nameToKod, kodToValue });
-      }
-    }
+    // 1. SCB metadata + data (cached 24h)
+    const { meta, selection, time, stat: { years, kodToSeries, unit } } = await loadScbStat(table, requested);
+
+    // 2. Join on kommunkod against the bundled boundaries
+    const features = boundaries.features.map(f => ({
+      ...f,
+      properties: {
+        ...f.properties,
+        series: kodToSeries[f.properties.kod] ?? null,
+      },
+    }));
 
-    // 2. GADM GeoJSON (cached 7 days)
-    let gadmGeo;
-    if (geoCache.data && Date.now() - geoCache.ts < GEO_TTL) {
-      gadmGeo = geoCache.data;
-    } else {
-      console.log('Fetching GADM GeoJSON…');
-      const geoRes = await fetch(GADM_URL);
-      if (!geoRes.ok) throw new Error(`GADM HTTP ${geoRes.status}`);
-      gadmGeo = await geoRes.json();
-      geoCache.data = gadmGeo;
-      geoCache.ts = Date.now();
-      console.log(`GADM: ${gadmGeo.features.length} total features cached`);
+    // Valda värden med klartext, för legend och popup (året byts på klienten)
+    const labels = {};
+    for (const [code, value] of Object.entries(selection)) {
+      if (code === time.code) continue;
+      const variable = meta.variables.find(v => v.code === code);
+      labels[code] = { text: variable.text, value: variable.values.find(v => v.code === value).text };
     }
 
-    // 3. Merge: add kod + sysselsattning to each municipality feature
-    // Build case-insensitive fallback map
-    const nameLower = {};
-    for (const [name, kod] of Object.entries(nameToKod)) {
-      nameLower[name.toLowerCase()] = kod;
-    }
+    res.json({
+      type: 'FeatureCollection',
+      features,
+      stat: { table, title: meta.title, unit, selection, labels, timeCode: time.code, years },
+    });
+  } catch (e) {
+    req.log.error('Kommunstatistik endpoint error', { err: e.message });
+    res.status(scbErrorStatus(e)).json({ error: e.message });
+  }
+});
 
-    const unmatched = [];
-    const features = gadmGeo.features
-      .filter(f => f.properties.ENGTYPE_2 === 'Municipality')
-      .map(f => {
-        const name2 = f.properties.NAME_2 || '';
-        const kod = nameToKod[name2] || nameLower[name2.toLowerCase()] || null;
-        const sysselsattning = kod ? (kodToValue[kod] ?? null) : null;
-        if (!kod) unmatched.push(name2);
-        return {
-          ...f,
-          properties: {
-            ...f.properties,
-            kod,
-            sysselsattning,
-          },
-        };
-      });
+// Kommunkoder utan motsvarighet: SCB-tabellens Region-variabel mot de buntade gränserna
+app.get('/api/kommuner/match-report', requireBoundaries, rateLimit('stat'), async (req, res) => {
+  try {
+    const table = String(req.query.table || SCB_TABLES[0].path);
+    const meta = await getScbMetadata(table);
+    res.json({ table, ...matchReport(boundaries, municipalityCodes(meta)) });
+  } catch (e) {
+    req.log.error('Match report error', { err: e.message });
+    res.status(scbErrorStatus(e)).json({ error: e.message });
+  }
+});
 
-    if (unmatched.length > 0) {
-      console.warn('Unmatched municipalities (no SCB data):', unmatched);
-    }
+// ── Rutter via OSRM-kompatibelt API ──────────────────────────────────────
+// OSRM_URL pekar på valfri OSRM (eller stubbe); OSRM_URL_CAR/BIKE/FOOT för en server per profil.
+// Den publika demoservern har bara bilprofilen och är inte tänkt för produktion.
+const routeOsrm = createOsrmRouter({
+  baseUrl: process.env.OSRM_URL || 'https://router.project-osrm.org',
+  modeUrls: { car: process.env.OSRM_URL_CAR, bike: process.env.OSRM_URL_BIKE, foot: process.env.OSRM_URL_FOOT },
+});
+const routeCache = cache.namespace('route', { ttl: 10 * 60 * 1000, staleTtl: HOUR, maxEntries: 500 });
 
-    res.json({ type: 'FeatureCollection', features });
+// ?points=18.07,59.33;17.64,59.86&mode=car|bike|foot
+app.get('/api/route', rateLimit('route'), async (req, res) => {
+  let waypoints, mode;
+  try {
+    waypoints = parseWaypoints(req.query.points);
+    mode = parseMode(req.query.mode);
   } catch (e) {
-    console.error('Sysselsättning endpoint error:', e.message);
-    res.status(500).json({ error: e.message });
+    if (e instanceof RouteQueryError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+  try {
+    const key = `${mode}:${waypoints.map(p => p.map(v => v.toFixed(5)).join(',')).join(';')}`;
+    res.json(await routeCache.get(key, () => routeOsrm(waypoints, mode)));
+  } catch (e) {
+    if (e instanceof NoRouteError) return res.status(404).json({ error: e.message });
+    req.log.error('Route error', { err: e.message });
+    res.status(502).json({ error: 'Ruttjänsten svarade inte' });
   }
 });
 
+// ── Drift: hälsa, beredskap och mätvärden ────────────────────────────────
+// /api/health svarar så länge processen lever. /api/ready kräver att Lantmäteriets token går att hämta
+// och att lagerkatalogen är laddad (anropet värmer den); kommungränser och LLM rapporteras men fäller
+// inte beredskapen eftersom resten av kartan fungerar utan dem.
+const READY_TIMEOUT = 5000;
+
+function withTimeout(promise, ms) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Inget svar inom ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(fn) {
+  const start = performance.now();
+  try {
+    const detail = await withTimeout(fn(), READY_TIMEOUT);
+    return { ok: true, ms: Math.round(performance.now() - start), ...detail };
+  } catch (e) {
+    return { ok: false, ms: Math.round(performance.now() - start), error: e.message };
+  }
+}
+
+app.get('/api/health', (_req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.json({ status: 'ok', uptime: Math.round(process.uptime()) });
+});
+
+app.get('/api/ready', async (req, res) => {
+  const [token, catalogue] = await Promise.all([
+    runCheck(async () => {
+      await getToken();
+    }),
+    runCheck(async () => ({ layers: (await getCapabilities()).layers.length })),
+  ]);
+  const checks = {
+    token,
+    catalogue,
+    boundaries: boundaries ? { ok: true, municipalities: boundaries.byKod.size } : { ok: false, error: 'Inte inlästa' },
+    llm: llm ? { ok: true, provider: llm.name, model: llm.model } : { ok: false, error: llmConfigError },
+  };
+  const ready = token.ok && catalogue.ok;
+  if (!ready) req.log.warn('Not ready', { token: token.error, catalogue: catalogue.error });
+  res.set('Cache-Control', 'no-store');
+  res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'not_ready', checks });
+});
+
+// Cachestatistiken finns redan i cache.js och tileCache.js — läses vid skrapning
+const CACHE_RESULTS = { hits: 'hit', l2Hits: 'l2_hit', misses: 'miss', stale: 'stale', errors: 'error' };
+collected('cache_requests_total', 'Cacheuppslag per namespace och utfall', 'counter', () =>
+  cache.stats().namespaces.flatMap(ns => Object.entries(CACHE_RESULTS)
+    .map(([field, result]) => ({ labels: { namespace: ns.name, result }, value: ns[field] }))));
+collected('cache_hit_ratio', 'Andel träffar (L1 + L2) per namespace', 'gauge', () =>
+  cache.stats().namespaces.map(ns => ({ labels: { namespace: ns.name }, value: ns.hitRate })));
+collected('cache_entries', 'Poster i minnet per namespace', 'gauge', () =>
+  cache.stats().namespaces.map(ns => ({ labels: { namespace: ns.name }, value: ns.size })));
+collected('tile_cache_requests_total', 'Uppslag i tile-cachen på disk', 'counter', () => {
+  const { hits, misses } = tileCache.stats();
+  return [{ labels: { result: 'hit' }, value: hits }, { labels: { result: 'miss' }, value: misses }];
+});
+collected('tile_cache_bytes', 'Tile-cachens storlek på disk', 'gauge', () => [{ value: tileCache.stats().bytes }]);
+
+// Prometheus-format. Med METRICS_TOKEN krävs den som bearer-token (skraparen bakom Cloudflare).
+app.get('/metrics', (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) return res.status(401).json({ error: 'Unauthorized' });
+  res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.set('Cache-Control', 'no-store');
+  res.send(renderMetrics());
+});
+
 // Serve frontend
 app.use(express.static(join(__dirname, '..', 'dist')));
 app.get('*', (_req, res) => {
@@ -500,5 +970,5 @@ app.get('*', (_req, res) => {
 
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
-  console.log(`Map server running on http://localhost:${PORT}`);
+  log.info('Map server running', { url: `http://localhost:${PORT}` });
 });
@@ -0,0 +1,181 @@
+// LLM-leverantörer bakom ett gemensamt gränssnitt: streamChat({ messages, tools, signal }) ger en
+// asynkron ström av deltan { content?, tool_calls? } i OpenAI-format.
+//
+// Väljs med miljövariabler:
+//   LLM_PROVIDER  openrouter | openai | mock (standard: openrouter)
+//   LLM_MODEL     modellnamn (standard för openrouter: google/gemini-2.5-flash)
+//   LLM_BASE_URL  bas-URL för openai, t.ex. http://localhost:11434/v1 (Ollama) eller http://localhost:8080/v1 (llama.cpp)
+//   LLM_API_KEY   nyckel för openai (valfri för lokala servrar)
+//   LLM_MOCK_SCRIPT    JSON-fil med egna mocksvar (se DEFAULT_MOCK_SCRIPT)
+//   LLM_MOCK_DELAY_MS  paus mellan mockens textbitar (standard 15, 0 = ingen)
+
+import { readFile } from 'fs/promises';
+import { upstreamFetch } from './metrics.js';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const OPENROUTER_DEFAULT_MODEL = 'google/gemini-2.5-flash';
+
+export class LlmConfigError extends Error {}
+export class LlmUpstreamError extends Error {}
+
+// data-raderna i en SSE-ström (fetch-body), utan [DONE]
+async function* sseData(body) {
+  const decoder = new TextDecoder();
+  let pending = '';
+  for await (const chunk of body) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop();
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue; // kommentarer (": OPENROUTER PROCESSING") och tomma rader
+      const data = line.slice(5).trim();
+      if (data && data !== '[DONE]') yield data;
+    }
+  }
+}
+
+// ── OpenAI-kompatibla API:er (OpenRouter, Ollama, llama.cpp, vLLM …) ────────
+
+function createOpenAiProvider({ name, baseUrl, apiKey, model, headers = {} }) {
+  const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+  return {
+    name,
+    model,
+    async *streamChat({ messages, tools, signal }) {
+      const res = await upstreamFetch(name, url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+          ...headers,
+        },
+        body: JSON.stringify({ model, stream: true, messages, ...(tools?.length && { tools }) }),
+        signal,
+      });
+      if (!res.ok) {
+        throw new LlmUpstreamError(`${name} HTTP ${res.status}: ${(await res.text()).slice(0, 300)}`);
+      }
+      for await (const data of sseData(res.body)) {
+        const delta = JSON.parse(data).choices?.[0]?.delta;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+// ── Mock ────────────────────────────────────────────────────────────────────
+
+// Skriptade svar för utveckling utan nätverk. Första posten vars match (regex, skiftlägesokänslig)
+// träffar senaste användarfrågan används; posten utan match är reserv. Med tool anropas verktyget först
+// och svaret ges när resultatet kommit tillbaka.
+const DEFAULT_MOCK_SCRIPT = [
+  {
+    match: 'slott',
+    reply: 'Runt Stockholm finns flera kungliga slott. Drottningholm är kungafamiljens bostad och ett världsarv, '
+      + 'Gripsholm i Mariefred är känt för sin porträttsamling och Skokloster är ett av Europas bäst bevarade barockslott.',
+    places: [
+      { name: 'Drottningholms slott', lat: 59.3217, lon: 17.8867, description: 'Kungafamiljens bostad, världsarv' },
+      { name: 'Gripsholms slott', lat: 59.2559, lon: 17.2188, description: 'Renässansslott i Mariefred' },
+      { name: 'Skoklosters slott', lat: 59.7036, lon: 17.6211, description: 'Barockslott vid Mälaren' },
+    ],
+  },
+  {
+    match: 'kaf[eé]|café',
+    tool: { name: 'geocode', arguments: { query: 'Vasamuseet, Stockholm' } },
+    reply: 'Vasamuseet ligger på Djurgården. Det finns flera kaféer inom gångavstånd, bland annat på Djurgårdsvägen.',
+    places: [{ name: 'Vasamuseet', lat: 59.328, lon: 18.0914, description: 'Museum för regalskeppet Vasa' }],
+  },
+  {
+    reply: 'Det här är ett testsvar från mockleverantören. Stockholm är Sveriges huvudstad och ligger där Mälaren möter Saltsjön.',
+    places: [{ name: 'Stockholm', lat: 59.3293, lon: 18.0686, description: 'Sveriges huvudstad' }],
+  },
+];
+
+function mockAnswer(entry) {
+  const block = entry.places?.length ? `\n\n\`\`\`places\n${JSON.stringify(entry.places)}\n\`\`\`` : '';
+  return `${entry.reply}${block}`;
+}
+
+function sleep(ms, signal) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+export function createMockProvider({ script = DEFAULT_MOCK_SCRIPT, chunkSize = 12, delayMs = 15 } = {}) {
+  const entries = script.map(e => ({ ...e, re: e.match ? new RegExp(e.match, 'i') : null }));
+  return {
+    name: 'mock',
+    model: 'mock',
+    async *streamChat({ messages, tools, signal }) {
+      const lastUser = [...messages].reverse().find(m => m.role === 'user');
+      const entry = entries.find(e => e.re?.test(lastUser?.content ?? '')) ?? entries.find(e => !e.re) ?? entries[0];
+
+      // Verktygsanrop om skriptet vill det, verktyget finns och inget resultat kommit ännu i denna fråga
+      const answeredTool = messages[messages.length - 1]?.role === 'tool';
+      if (entry.tool && !answeredTool && tools?.some(t => t.function.name === entry.tool.name)) {
+        yield {
+          tool_calls: [{
+            index: 0,
+            id: 'mock_call_0',
+            type: 'function',
+            function: { name: entry.tool.name, arguments: JSON.stringify(entry.tool.arguments ?? {}) },
+          }],
+        };
+        return;
+      }
+
+      const answer = mockAnswer(entry);
+      for (let i = 0; i < answer.length; i += chunkSize) {
+        if (delayMs) await sleep(delayMs, signal);
+        yield { content: answer.slice(i, i + chunkSize) };
+      }
+    },
+  };
+}
+
+// ── Konfiguration ───────────────────────────────────────────────────────────
+
+export async function createLlmProvider(env = process.env) {
+  const kind = env.LLM_PROVIDER || 'openrouter';
+  switch (kind) {
+    case 'openrouter': {
+      const apiKey = env.LLM_API_KEY || env.OPENROUTER_API_KEY;
+      if (!apiKey || apiKey === 'your-openrouter-api-key-here') {
+        throw new LlmConfigError('OPENROUTER_API_KEY saknas (eller sätt LLM_PROVIDER=mock för lokal utveckling)');
+      }
+      return createOpenAiProvider({
+        name: 'openrouter',
+        baseUrl: env.LLM_BASE_URL || OPENROUTER_BASE_URL,
+        apiKey,
+        model: env.LLM_MODEL || OPENROUTER_DEFAULT_MODEL,
+      });
+    }
+    case 'openai':
+      if (!env.LLM_BASE_URL) throw new LlmConfigError('LLM_BASE_URL krävs för LLM_PROVIDER=openai');
+      if (!env.LLM_MODEL) throw new LlmConfigError('LLM_MODEL krävs för LLM_PROVIDER=openai');
+      return createOpenAiProvider({
+        name: 'openai',
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        model: env.LLM_MODEL,
+      });
+    case 'mock': {
+      let script;
+      if (env.LLM_MOCK_SCRIPT) {
+        try {
+          script = JSON.parse(await readFile(env.LLM_MOCK_SCRIPT, 'utf8'));
+        } catch (e) {
+          throw new LlmConfigError(`LLM_MOCK_SCRIPT kunde inte läsas: ${e.message}`);
+        }
+      }
+      return createMockProvider({ script, delayMs: env.LLM_MOCK_DELAY_MS !== undefined ? Number(env.LLM_MOCK_DELAY_MS) : undefined });
+    }
+    default:
+      throw new LlmConfigError(`Okänd LLM_PROVIDER: ${kind} (giltiga: openrouter, openai, mock)`);
+  }
+}
@@ -0,0 +1,43 @@
+// Strukturerad loggning: en JSON-rad per händelse ({ time, level, msg, ...fält }) så att loggarna kan
+// filtreras på upstream, reqId och status i stället för att greppas. LOG_LEVEL = debug | info (standard)
+// | warn | error. LOG_FORMAT=text ger läsbara rader för lokal utveckling.
+//
+// log.child({ reqId }) ger en logger som lägger till fälten på varje rad — routes loggar via req.log.
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const threshold = LEVELS[process.env.LOG_LEVEL] ?? LEVELS.info;
+const textFormat = process.env.LOG_FORMAT === 'text';
+
+// Error-objekt blir { name, message } — JSON.stringify ger annars {}
+function serialize(fields) {
+  const out = {};
+  for (const [k, v] of Object.entries(fields)) {
+    out[k] = v instanceof Error ? { name: v.name, message: v.message } : v;
+  }
+  return out;
+}
+
+function formatText(entry) {
+  const { time, level, msg, ...fields } = entry;
+  const rest = Object.entries(fields).map(([k, v]) => `${k}=${typeof v === 'string' ? v : JSON.stringify(v)}`);
+  return [time, level.toUpperCase().padEnd(5), msg, ...rest].join(' ');
+}
+
+function createLogger(base) {
+  function write(level, msg, fields) {
+    if (LEVELS[level] < threshold) return;
+    const entry = { time: new Date().toISOString(), level, msg, ...base, ...(fields && serialize(fields)) };
+    const line = textFormat ? formatText(entry) : JSON.stringify(entry);
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+    child: fields => createLogger({ ...base, ...fields }),
+  };
+}
+
+export const log = createLogger({});
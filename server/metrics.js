@@ -0,0 +1,130 @@
+// Prometheus-mätvärden utan beroenden. Räknare och histogram uppdateras där händelsen sker; värden som
+// redan finns någon annanstans (cachestatistik, minne) samlas in vid skrapning via collect().
+// render() ger textformatet som /metrics serverar.
+//
+// upstreamFetch(upstream, url, init) ersätter fetch för anrop till externa tjänster och räknar anrop,
+// utfall och svarstid per upstream (lantmateriet, overpass, scb, nominatim, osrm, LLM-leverantören).
+
+const metrics = [];
+
+// Prometheus-standardhinkar i sekunder, från 5 ms till 10 s
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabel = v => String(v).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels) {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+// Samma etiketter i samma ordning oavsett hur anroparen skrev objektet
+function pick(labels, names) {
+  return Object.fromEntries(names.map(n => [n, labels[n] ?? '']));
+}
+
+function register(metric) {
+  if (metrics.some(m => m.name === metric.name)) throw new Error(`Mätvärdet ${metric.name} finns redan`);
+  metrics.push(metric);
+  return metric;
+}
+
+export function counter(name, help, labelNames = []) {
+  const values = new Map(); // labelsträng → värde
+  return register({
+    name,
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+      for (const [labels, value] of values) lines.push(`${name}${labels} ${value}`);
+      return lines;
+    },
+    inc(labels = {}, n = 1) {
+      const key = formatLabels(pick(labels, labelNames));
+      values.set(key, (values.get(key) ?? 0) + n);
+    },
+  });
+}
+
+export function histogram(name, help, labelNames = [], buckets = DEFAULT_BUCKETS) {
+  const series = new Map(); // labelsträng → { labels, counts, sum, count }
+  return register({
+    name,
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((le, i) => lines.push(`${name}_bucket${formatLabels({ ...labels, le })} ${counts[i]}`));
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+      return lines;
+    },
+    observe(labels, value) {
+      const picked = pick(labels, labelNames);
+      const key = formatLabels(picked);
+      let s = series.get(key);
+      if (!s) {
+        s = { labels: picked, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, s);
+      }
+      buckets.forEach((le, i) => { if (value <= le) s.counts[i]++; });
+      s.sum += value;
+      s.count++;
+    },
+  });
+}
+
+// Värden som läses vid skrapning: collect() → [{ labels, value }]. type = gauge | counter.
+export function collected(name, help, type, collect) {
+  return register({
+    name,
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+      for (const { labels = {}, value } of collect()) {
+        if (value !== null && value !== undefined) lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+      return lines;
+    },
+  });
+}
+
+export function renderMetrics() {
+  return `${metrics.flatMap(m => m.render()).join('\n')}\n`;
+}
+
+// ── Gemensamma mätvärden ────────────────────────────────────────────────────
+
+export const httpRequests = counter('http_requests_total', 'HTTP-förfrågningar per route och status', ['method', 'route', 'status']);
+export const httpDuration = histogram('http_request_duration_seconds', 'Svarstid per route', ['method', 'route']);
+
+const upstreamRequests = counter(
+  'upstream_requests_total',
+  'Anrop till externa tjänster per utfall (ok, http_4xx, http_5xx, timeout, aborted, network_error)',
+  ['upstream', 'outcome'],
+);
+const upstreamDuration = histogram('upstream_request_duration_seconds', 'Tid till svarshuvud per extern tjänst', ['upstream']);
+
+export const rateLimitRejections = counter('rate_limit_rejections_total', 'Förfrågningar som fått 429 per policy', ['policy']);
+
+collected('process_uptime_seconds', 'Sekunder sedan start', 'gauge', () => [{ value: Math.round(process.uptime()) }]);
+collected('process_resident_memory_bytes', 'RSS', 'gauge', () => [{ value: process.memoryUsage.rss() }]);
+
+function fetchOutcome(e) {
+  if (e.name === 'TimeoutError') return 'timeout';
+  if (e.name === 'AbortError') return 'aborted'; // klienten gav upp, t.ex. stängd chattpanel
+  return 'network_error';
+}
+
+// fetch med mätning. Tiden räknas till svarshuvudet — strömmade svar (LLM) mäts alltså till första byte.
+export async function upstreamFetch(upstream, url, init) {
+  const start = performance.now();
+  try {
+    const res = await fetch(url, init);
+    upstreamRequests.inc({ upstream, outcome: res.ok ? 'ok' : `http_${Math.floor(res.status / 100)}xx` });
+    return res;
+  } catch (e) {
+    upstreamRequests.inc({ upstream, outcome: fetchOutcome(e) });
+    throw e;
+  } finally {
+    upstreamDuration.observe({ upstream }, (performance.now() - start) / 1000);
+  }
+}
@@ -0,0 +1,137 @@
+// Driftlarm till ägaren. Kanalerna väljs med ALERT_CHANNELS (kommaseparerat, standard "log"):
+//   log      skriv till serverloggen
+//   webhook  ALERT_WEBHOOK_URL — POST { text } (Slack/Mattermost/Discord-kompatibelt via "text")
+//   signal   SIGNAL_API_URL (signal-cli REST), SIGNAL_FROM, SIGNAL_TO (kommaseparerade mottagare)
+//   email    SMTP_URL (smtp:// med krav på STARTTLS eller smtps://, user:pass@host:port), ALERT_EMAIL_FROM, ALERT_EMAIL_TO
+// Ett larm som inte går fram loggas — larm får aldrig fälla den förfrågan som utlöste dem.
+
+import nodemailer from 'nodemailer';
+import { log } from './logger.js';
+
+const SEND_TIMEOUT = 10_000;
+
+export class NotifierConfigError extends Error {}
+
+function requireEnv(env, names, channel) {
+  const missing = names.filter(n => !env[n]);
+  if (missing.length) throw new NotifierConfigError(`${channel} kräver ${missing.join(', ')}`);
+}
+
+function createLogChannel() {
+  return { name: 'log', send: async (message) => log.warn('Alert', { alert: message }) };
+}
+
+function createWebhookChannel(url) {
+  return {
+    name: 'webhook',
+    async send(message) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: message }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT),
+      });
+      if (!res.ok) throw new Error(`webhook HTTP ${res.status}`);
+    },
+  };
+}
+
+function createSignalChannel({ apiUrl, from, recipients }) {
+  return {
+    name: 'signal',
+    async send(message) {
+      const res = await fetch(`${apiUrl.replace(/\/$/, '')}/v2/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, number: from, recipients }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT),
+      });
+      if (!res.ok) throw new Error(`signal-cli HTTP ${res.status}`);
+    },
+  };
+}
+
+// ── E-post ──────────────────────────────────────────────────────────────────
+// nodemailer sköter STARTTLS (smtp://), implicit TLS (smtps://) och AUTH utifrån SMTP_URL.
+
+function createEmailChannel({ smtpUrl, from, to }) {
+  let url, auth;
+  try {
+    url = new URL(smtpUrl);
+    auth = url.username
+      ? { user: decodeURIComponent(url.username), pass: decodeURIComponent(url.password) }
+      : undefined;
+  } catch {
+    throw new NotifierConfigError('SMTP_URL är ogiltig');
+  }
+  if (url.protocol !== 'smtp:' && url.protocol !== 'smtps:') throw new NotifierConfigError('SMTP_URL ska börja med smtp:// eller smtps://');
+  const recipients = to.split(',').map(r => r.trim()).filter(Boolean);
+  const transport = nodemailer.createTransport({
+    host: url.hostname,
+    port: Number(url.port) || (url.protocol === 'smtps:' ? 465 : 587),
+    secure: url.protocol === 'smtps:',
+    // smtp:// kräver STARTTLS — larm med driftdetaljer skickas inte i klartext
+    requireTLS: url.protocol === 'smtp:',
+    auth,
+    connectionTimeout: SEND_TIMEOUT,
+    greetingTimeout: SEND_TIMEOUT,
+    socketTimeout: SEND_TIMEOUT,
+  });
+
+  return {
+    name: 'email',
+    async send(message) {
+      await transport.sendMail({
+        from,
+        to: recipients,
+        subject: message.split('\n')[0].slice(0, 120),
+        text: message,
+      });
+    },
+  };
+}
+
+// ── Konfiguration ───────────────────────────────────────────────────────────
+
+function createChannel(name, env) {
+  switch (name) {
+    case 'log':
+      return createLogChannel();
+    case 'webhook':
+      requireEnv(env, ['ALERT_WEBHOOK_URL'], 'webhook');
+      return createWebhookChannel(env.ALERT_WEBHOOK_URL);
+    case 'signal':
+      requireEnv(env, ['SIGNAL_API_URL', 'SIGNAL_FROM', 'SIGNAL_TO'], 'signal');
+      return createSignalChannel({
+        apiUrl: env.SIGNAL_API_URL,
+        from: env.SIGNAL_FROM,
+        recipients: env.SIGNAL_TO.split(',').map(r => r.trim()).filter(Boolean),
+      });
+    case 'email':
+      requireEnv(env, ['SMTP_URL', 'ALERT_EMAIL_FROM', 'ALERT_EMAIL_TO'], 'email');
+      return createEmailChannel({ smtpUrl: env.SMTP_URL, from: env.ALERT_EMAIL_FROM, to: env.ALERT_EMAIL_TO });
+    default:
+      throw new NotifierConfigError(`Okänd larmkanal: ${name} (giltiga: log, webhook, signal, email)`);
+  }
+}
+
+// → { channels, notify(message, { key, cooldownMs }) }. Med key skickas samma larm högst en gång per cooldown.
+export function createNotifier(env = process.env) {
+  const names = (env.ALERT_CHANNELS || 'log').split(',').map(n => n.trim()).filter(Boolean);
+  const channels = names.map(n => createChannel(n, env));
+  const lastSent = new Map(); // key → tid
+
+  return {
+    channels: channels.map(c => c.name),
+    async notify(message, { key, cooldownMs = 10 * 60_000 } = {}) {
+      if (key) {
+        const now = Date.now();
+        if (now - (lastSent.get(key) ?? 0) < cooldownMs) return;
+        lastSent.set(key, now);
+      }
+      await Promise.all(channels.map(c => c.send(message).catch(e => {
+        log.error('Alert delivery failed', { channel: c.name, err: e.message });
+      })));
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// Förankring av AI:ns platser mot geokodaren. Sökningen viktas mot AI:ns egna koordinater och träffar
+// längre bort än MAX_DISTANCE_M räknas som en annan plats med samma namn ("Slottet", "Kyrkan").
+// Varje plats får source (ai | geocoder | unverified), confidence (high | medium | low) och
+// candidates — alternativ som användaren kan välja i chatten.
+
+import { log } from './logger.js';
+
+const MAX_DISTANCE_M = 25_000;
+const CONFIRMED_DISTANCE_M = 2_000; // geokodarens träff så nära AI:ns punkt bekräftar den
+const SEARCH_BOX_DEG = 0.5; // viewbox runt AI:ns punkt som viktar sökningen (inte begränsar den)
+const MAX_CANDIDATES = 4;
+
+export function distanceMeters(lat1, lon1, lat2, lon2) {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLon = (lon2 - lon1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371008.8 * Math.asin(Math.sqrt(a));
+}
+
+const candidate = (hit, source) => ({ name: hit.name, lat: hit.lat, lon: hit.lon, source });
+
+// search(query, limit, viewbox) → [{ name, lat, lon }]; viewbox = [west, north, east, south]
+export function createPlaceGrounder({ search }) {
+  async function groundPlace(place) {
+    const viewbox = [
+      place.lon - SEARCH_BOX_DEG, place.lat + SEARCH_BOX_DEG,
+      place.lon + SEARCH_BOX_DEG, place.lat - SEARCH_BOX_DEG,
+    ];
+    let hits;
+    try {
+      hits = await search(place.name, 5, viewbox);
+    } catch (e) {
+      log.warn('Geocoder lookup failed', { place: place.name, err: e.message });
+      return { ...place, source: 'unverified', confidence: 'low', candidates: [] };
+    }
+
+    const ranked = hits
+      .map(h => ({ ...h, distance: distanceMeters(place.lat, place.lon, h.lat, h.lon) }))
+      .sort((a, b) => a.distance - b.distance);
+    const near = ranked.filter(h => h.distance <= MAX_DISTANCE_M);
+
+    // Inget nära AI:ns punkt: behåll den och erbjud geokodarens träffar som alternativ
+    if (near.length === 0) {
+      return {
+        ...place,
+        source: ranked.length > 0 ? 'ai' : 'unverified',
+        confidence: 'low',
+        candidates: ranked.slice(0, MAX_CANDIDATES).map(h => candidate(h, 'geocoder')),
+      };
+    }
+
+    // Flera skilda träffar inom avståndet gör valet osäkert även om den närmaste är nära
+    const [best, ...rest] = near;
+    const ambiguous = rest.some(h => distanceMeters(best.lat, best.lon, h.lat, h.lon) > CONFIRMED_DISTANCE_M);
+    const confidence = best.distance <= CONFIRMED_DISTANCE_M && !ambiguous ? 'high' : 'medium';
+    if (best.distance > 100) {
+      log.info('Grounded place', {
+        place: place.name, from: [place.lat, place.lon], to: [best.lat, best.lon], distance: Math.round(best.distance), confidence,
+      });
+    }
+    const others = ranked.filter(h => h !== best).slice(0, MAX_CANDIDATES - 1).map(h => candidate(h, 'geocoder'));
+    return {
+      ...place,
+      lat: best.lat,
+      lon: best.lon,
+      source: 'geocoder',
+      confidence,
+      // Vid osäker träff kan användaren gå tillbaka till AI:ns egen punkt
+      candidates: confidence === 'high'
+        ? others
+        : [candidate({ name: 'AI:ns position', lat: place.lat, lon: place.lon }, 'ai'), ...others],
+    };
+  }
+
+  return (places) => Promise.all(places.map(groundPlace));
+}
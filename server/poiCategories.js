@@ -0,0 +1,55 @@
+// POI-kategorier — enda källan för både Overpass-filter och klientens POI-rad.
+// Filter skrivs i Overpass-liknande syntax: [key=value][key2=value2] (alla villkor måste uppfyllas).
+
+export const POI_CATEGORIES = [
+  { id: 'restauranger', label: 'Restauranger', emoji: '\u{1F37D}', color: '#f97316', filter: '[amenity=restaurant]' },
+  { id: 'kafeer', label: 'Kaféer', emoji: '\u2615', color: '#92400e', filter: '[amenity=cafe]' },
+  { id: 'parker', label: 'Parker', emoji: '\u{1F333}', color: '#22c55e', filter: '[leisure=park]' },
+  { id: 'laddstationer', label: 'Laddstationer', emoji: '\u26A1', color: '#eab308', filter: '[amenity=charging_station]' },
+  { id: 'vatgas', label: 'Vätgasstationer', emoji: '\u{1F4A7}', color: '#06b6d4', filter: '[amenity=fuel][fuel:hydrogen=yes]' },
+  { id: 'busshallplatser', label: 'Busshållplatser', emoji: '\u{1F68C}', color: '#3b82f6', filter: '[highway=bus_stop]' },
+];
+
+const MAX_TERMS = 5;
+const KEY_RE = /^[A-Za-z0-9_:.-]{1,64}$/;
+// Inga citattecken, backslash eller hakparenteser — värdet bäddas in i en Overpass-sträng
+const VALUE_RE = /^[^"\\[\]\n\r]{1,128}$/;
+const TERM_RE = /\[\s*(!?)\s*([^\]=!~]+?)\s*(?:(=|!=|~)\s*([^\]]*?)\s*)?\]/y;
+
+export class TagFilterError extends Error {}
+
+// "[amenity=fuel][fuel:hydrogen=yes]" → [{ key, op, value, negate }]
+export function parseTagFilter(expr) {
+  if (typeof expr !== 'string' || !expr.trim()) throw new TagFilterError('Filtret är tomt');
+  const input = expr.trim();
+  const terms = [];
+  TERM_RE.lastIndex = 0;
+  while (TERM_RE.lastIndex < input.length) {
+    while (input[TERM_RE.lastIndex] === ' ') TERM_RE.lastIndex++;
+    const pos = TERM_RE.lastIndex;
+    const m = TERM_RE.exec(input);
+    if (!m) throw new TagFilterError(`Ogiltig syntax vid position ${pos + 1}, förväntade [nyckel=värde]`);
+    const [, negate, key, op, value] = m;
+    if (!KEY_RE.test(key)) throw new TagFilterError(`Ogiltig nyckel: ${key}`);
+    if (op && !VALUE_RE.test(value)) throw new TagFilterError(`Ogiltigt värde för ${key}`);
+    if (negate && op) throw new TagFilterError('Negation (!) kan bara användas utan värde: [!nyckel]');
+    terms.push({ key, op: op || null, value: op ? value : null, negate: negate === '!' });
+  }
+  if (terms.length > MAX_TERMS) throw new TagFilterError(`Max ${MAX_TERMS} villkor per filter`);
+  // Minst ett positivt likhetsvillkor så att Overpass kan använda index i stället för att skanna allt
+  if (!terms.some(t => t.op === '=')) throw new TagFilterError('Filtret måste innehålla minst ett [nyckel=värde]');
+  return terms;
+}
+
+// Normaliserad form — används som cachenyckel
+export function formatTagFilter(terms) {
+  return terms
+    .map(t => t.negate ? `[!${t.key}]` : t.op ? `[${t.key}${t.op}${t.value}]` : `[${t.key}]`)
+    .join('');
+}
+
+export function toOverpassFilter(terms) {
+  return terms
+    .map(t => t.negate ? `[!"${t.key}"]` : t.op ? `["${t.key}"${t.op}"${t.value}"]` : `["${t.key}"]`)
+    .join('');
+}
@@ -0,0 +1,58 @@
+// Kvantisering av POI-förfrågningar till ett fast rutnät i WGS84 + begränsning av samtidiga upstream-anrop.
+// Varje panorering träffar samma rutor i stället för att skapa en unik bbox-nyckel.
+
+const BASE_TILE_DEG = 0.05;
+const MAX_LEVEL = 5;      // 0.05° · 2^5 = 1.6°
+const MAX_TILES = 16;
+
+export class BboxTooLargeError extends Error {}
+
+const round = v => Math.round(v * 1e6) / 1e6;
+
+// bbox: { south, west, north, east } → rutor på den finaste nivån som ger högst MAX_TILES rutor
+export function tilesForBbox({ south, west, north, east }) {
+  for (let level = 0; level <= MAX_LEVEL; level++) {
+    const size = BASE_TILE_DEG * 2 ** level;
+    const x0 = Math.floor(west / size);
+    const x1 = Math.floor(east / size);
+    const y0 = Math.floor(south / size);
+    const y1 = Math.floor(north / size);
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_TILES) continue;
+
+    const tiles = [];
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        tiles.push({
+          id: `${level}/${x}/${y}`,
+          south: round(y * size),
+          west: round(x * size),
+          north: round((y + 1) * size),
+          east: round((x + 1) * size),
+        });
+      }
+    }
+    return tiles;
+  }
+  throw new BboxTooLargeError('Området är för stort — zooma in för att visa POI:er');
+}
+
+// Begränsa antalet samtidiga anrop mot en upstream
+export function createLimiter(concurrency) {
+  let active = 0;
+  const queue = [];
+
+  const next = () => {
+    if (active >= concurrency || queue.length === 0) return;
+    active++;
+    const { fn, resolve, reject } = queue.shift();
+    fn().then(resolve, reject).finally(() => {
+      active--;
+      next();
+    });
+  };
+
+  return fn => new Promise((resolve, reject) => {
+    queue.push({ fn, resolve, reject });
+    next();
+  });
+}
@@ -0,0 +1,150 @@
+// Rate limiting med token bucket per policy och klient. En policy { max, windowMs, burst? } fyller på
+// max tokens per windowMs upp till burst (standard max). Svaren får RateLimit-* enligt IETF-utkastet
+// och Retry-After vid 429 så att klienten kan visa hur länge den ska vänta.
+//
+// Policyerna kan skrivas över med RATE_LIMITS (JSON), t.ex. {"chat":{"max":10,"windowMs":3600000}}.
+// En delad store håller gränserna över flera instanser; faller den bort används minnet.
+
+import { log } from './logger.js';
+
+export const DEFAULT_POLICIES = {
+  wmts: { max: 120, windowMs: 60_000 },
+  pois: { max: 60, windowMs: 60_000 },
+  geocode: { max: 60, windowMs: 60_000 },
+  reverse: { max: 60, windowMs: 60_000 },
+  chat: { max: 20, windowMs: 60 * 60_000 },
+  stat: { max: 30, windowMs: 60_000 },
+  route: { max: 30, windowMs: 60_000 },
+};
+
+export class RateLimitConfigError extends Error {}
+
+function validPolicy(p) {
+  return p && Number.isFinite(p.max) && p.max > 0 && Number.isFinite(p.windowMs) && p.windowMs > 0
+    && (p.burst === undefined || (Number.isFinite(p.burst) && p.burst >= 1));
+}
+
+// RATE_LIMITS-json ovanpå standardpolicyerna; okända namn och ogiltiga värden avvisas vid start
+export function parsePolicies(json) {
+  const policies = structuredClone(DEFAULT_POLICIES);
+  if (!json) return policies;
+  let overrides;
+  try {
+    overrides = JSON.parse(json);
+  } catch {
+    throw new RateLimitConfigError('RATE_LIMITS är inte giltig JSON');
+  }
+  for (const [name, override] of Object.entries(overrides)) {
+    if (!policies[name]) throw new RateLimitConfigError(`Okänd rate limit-policy: ${name}`);
+    const merged = { ...policies[name], ...override };
+    if (!validPolicy(merged)) throw new RateLimitConfigError(`Ogiltig rate limit-policy ${name}: ${JSON.stringify(override)}`);
+    policies[name] = merged;
+  }
+  return policies;
+}
+
+// ── Stores ──────────────────────────────────────────────────────────────────
+// take(key, capacity, refillPerMs) → { allowed, tokens } där tokens är vad som finns kvar efteråt
+
+export function createMemoryRateStore() {
+  const buckets = new Map(); // key → { tokens, updated }
+
+  // Buckets som hunnit fyllas helt igen behövs inte — rensa så att Map:en inte växer obegränsat
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, b] of buckets) if (now >= b.full) buckets.delete(key);
+  }, 10 * 60_000);
+  sweep.unref();
+
+  return {
+    name: 'memory',
+    async take(key, capacity, refillPerMs) {
+      const now = Date.now();
+      const b = buckets.get(key) ?? { tokens: capacity, updated: now };
+      b.tokens = Math.min(capacity, b.tokens + (now - b.updated) * refillPerMs);
+      b.updated = now;
+      const allowed = b.tokens >= 1;
+      if (allowed) b.tokens -= 1;
+      b.full = now + (capacity - b.tokens) / refillPerMs;
+      buckets.set(key, b);
+      return { allowed, tokens: b.tokens };
+    },
+  };
+}
+
+// Delad bucket i Postgres via Supabase. Kräver tabellen och funktionen nedan:
+//
+//   create table rate_limit_buckets (key text primary key, tokens double precision not null, updated_at timestamptz not null);
+//   create or replace function take_rate_token(p_key text, p_capacity double precision, p_refill_per_ms double precision)
+//   returns table (allowed boolean, tokens double precision) language plpgsql as $$
+//   declare
+//     now_ts timestamptz := clock_timestamp();
+//     b rate_limit_buckets%rowtype;
+//   begin
+//     insert into rate_limit_buckets values (p_key, p_capacity, now_ts) on conflict (key) do nothing;
+//     select * into b from rate_limit_buckets where key = p_key for update;
+//     tokens := least(p_capacity, b.tokens + extract(epoch from now_ts - b.updated_at) * 1000 * p_refill_per_ms);
+//     allowed := tokens >= 1;
+//     if allowed then tokens := tokens - 1; end if;
+//     update rate_limit_buckets set tokens = take_rate_token.tokens, updated_at = now_ts where key = p_key;
+//     return next;
+//   end $$;
+export function createSupabaseRateStore(supabase) {
+  return {
+    name: 'supabase',
+    async take(key, capacity, refillPerMs) {
+      const { data, error } = await supabase.rpc('take_rate_token', {
+        p_key: key, p_capacity: capacity, p_refill_per_ms: refillPerMs,
+      });
+      if (error) throw new Error(error.message);
+      const row = Array.isArray(data) ? data[0] : data;
+      return { allowed: Boolean(row.allowed), tokens: Number(row.tokens) };
+    },
+  };
+}
+
+// ── Middleware ──────────────────────────────────────────────────────────────
+
+// { policies, store, onLimit({ policy, ip, path, retryAfter }) } → limit(policyName) som Express-middleware
+export function createRateLimiter({ policies, store = createMemoryRateStore(), onLimit = () => {} }) {
+  const fallback = store.name === 'memory' ? store : createMemoryRateStore();
+  let storeFailing = false;
+
+  async function take(key, capacity, refillPerMs) {
+    try {
+      const result = await store.take(key, capacity, refillPerMs);
+      if (storeFailing) log.info('Rate limit store is back', { store: store.name });
+      storeFailing = false;
+      return result;
+    } catch (e) {
+      if (!storeFailing) log.warn('Rate limit store failed, using memory', { store: store.name, err: e.message });
+      storeFailing = true;
+      return fallback.take(key, capacity, refillPerMs);
+    }
+  }
+
+  return function limit(name) {
+    const policy = policies[name];
+    if (!policy) throw new RateLimitConfigError(`Okänd rate limit-policy: ${name}`);
+    const capacity = policy.burst ?? policy.max;
+    const refillPerMs = policy.max / policy.windowMs;
+    const policyHeader = `${policy.max};w=${Math.round(policy.windowMs / 1000)};burst=${capacity}`;
+
+    return async (req, res, next) => {
+      // En bucket per policy, route och klient — routes som delar policy har var sin budget
+      const { allowed, tokens } = await take(`${name}:${req.path}:${req.ip}`, capacity, refillPerMs);
+      res.set({
+        'RateLimit-Policy': policyHeader,
+        'RateLimit-Limit': String(capacity),
+        'RateLimit-Remaining': String(Math.max(0, Math.floor(tokens))),
+        'RateLimit-Reset': String(Math.ceil((capacity - tokens) / refillPerMs / 1000)),
+      });
+      if (allowed) return next();
+
+      const retryAfter = Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000));
+      res.set('Retry-After', String(retryAfter));
+      onLimit({ policy: name, ip: req.ip, path: req.path, retryAfter });
+      res.status(429).json({ error: 'För många förfrågningar, försök igen senare.', retryAfter });
+    };
+  };
+}
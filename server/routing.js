@@ -0,0 +1,133 @@
+// Ruttplanering mot ett OSRM-kompatibelt HTTP-API (/route/v1/<profil>/<lon,lat;…>).
+// Bas-URL:en är utbytbar så att samma kod kan köras mot en lokal OSRM, den publika demoservern eller en stubbe.
+
+import { upstreamFetch } from './metrics.js';
+
+const MAX_WAYPOINTS = 25;
+const UPSTREAM_TIMEOUT = 15_000;
+
+// Färdsätt → OSRM-profil. Lokala OSRM-installationer kör ofta en server per profil,
+// därför kan varje färdsätt få en egen bas-URL.
+export const ROUTE_MODES = {
+  car: { profile: 'driving', label: 'Bil' },
+  bike: { profile: 'cycling', label: 'Cykel' },
+  foot: { profile: 'foot', label: 'Gång' },
+};
+
+export class RouteQueryError extends Error {}
+export class NoRouteError extends Error {}
+
+// "lon,lat;lon,lat;…" → [[lon, lat], …]
+export function parseWaypoints(points) {
+  if (typeof points !== 'string' || !points) {
+    throw new RouteQueryError('points krävs (lon,lat;lon,lat;…)');
+  }
+  const waypoints = points.split(';').map(pair => pair.split(',').map(Number));
+  if (waypoints.length < 2) throw new RouteQueryError('Minst två punkter krävs');
+  if (waypoints.length > MAX_WAYPOINTS) throw new RouteQueryError(`Högst ${MAX_WAYPOINTS} punkter`);
+  for (const p of waypoints) {
+    if (p.length !== 2 || p.some(v => !Number.isFinite(v))) throw new RouteQueryError('Punkter anges som lon,lat');
+    if (Math.abs(p[0]) > 180 || Math.abs(p[1]) > 90) throw new RouteQueryError('Koordinat utanför giltigt intervall');
+  }
+  return waypoints;
+}
+
+export function parseMode(mode) {
+  const key = mode === undefined ? 'car' : String(mode);
+  if (!ROUTE_MODES[key]) {
+    throw new RouteQueryError(`Okänt färdsätt. Giltiga: ${Object.keys(ROUTE_MODES).join(', ')}`);
+  }
+  return key;
+}
+
+// ── Svenska instruktioner från OSRM:s manöver (type + modifier) ─────────────
+const DIRECTIONS = {
+  uturn: 'gör en U-sväng',
+  'sharp right': 'sväng skarpt höger',
+  right: 'sväng höger',
+  'slight right': 'håll höger',
+  straight: 'fortsätt rakt fram',
+  'slight left': 'håll vänster',
+  left: 'sväng vänster',
+  'sharp left': 'sväng skarpt vänster',
+};
+
+function capitalize(text) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function stepInstruction({ maneuver, name }) {
+  const onto = name ? ` in på ${name}` : '';
+  const along = name ? ` på ${name}` : '';
+  const direction = DIRECTIONS[maneuver.modifier] ?? 'fortsätt';
+  switch (maneuver.type) {
+    case 'depart':
+      return `Starta${along}`;
+    case 'arrive':
+      return 'Framme vid destinationen';
+    case 'roundabout':
+    case 'rotary':
+      return maneuver.exit
+        ? `Kör in i rondellen och ta avfart ${maneuver.exit}${onto}`
+        : `Kör in i rondellen${onto}`;
+    case 'exit roundabout':
+    case 'exit rotary':
+      return `Lämna rondellen${onto}`;
+    case 'merge':
+      return `Kör ihop med trafiken${onto}`;
+    case 'on ramp':
+      return `Ta påfarten${onto}`;
+    case 'off ramp':
+      return `Ta avfarten${onto}`;
+    case 'fork':
+      return `${capitalize(direction)} i vägskälet${onto}`;
+    case 'end of road':
+      return `${capitalize(direction)} i slutet av vägen${onto}`;
+    case 'new name':
+    case 'continue':
+      return `Fortsätt${along}`;
+    default:
+      return `${capitalize(direction)}${onto}`;
+  }
+}
+
+// ── Upstream ────────────────────────────────────────────────────────────────
+
+// { baseUrl, modeUrls: { car?, bike?, foot? } } → route(waypoints, mode)
+export function createOsrmRouter({ baseUrl, modeUrls = {} }) {
+  return async function route(waypoints, mode) {
+    const base = (modeUrls[mode] || baseUrl).replace(/\/$/, '');
+    const coords = waypoints.map(([lon, lat]) => `${lon.toFixed(6)},${lat.toFixed(6)}`).join(';');
+    const url = `${base}/route/v1/${ROUTE_MODES[mode].profile}/${coords}?overview=full&geometries=geojson&steps=true`;
+
+    const res = await upstreamFetch('osrm', url, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT) });
+    // OSRM svarar 400 med code=NoRoute/NoSegment när punkterna inte går att nå — skilj det från fel i tjänsten
+    const data = await res.json().catch(() => null);
+    if (data && (data.code === 'NoRoute' || data.code === 'NoSegment')) {
+      throw new NoRouteError('Ingen rutt hittades mellan punkterna');
+    }
+    if (!res.ok || !data || data.code !== 'Ok' || !data.routes?.length) {
+      throw new Error(`OSRM ${res.status}: ${data?.message || data?.code || 'ogiltigt svar'}`);
+    }
+
+    const best = data.routes[0];
+    return {
+      mode,
+      distance: best.distance,
+      duration: best.duration,
+      geometry: best.geometry,
+      waypoints: (data.waypoints ?? []).map(w => ({ name: w.name, location: w.location })),
+      legs: best.legs.map(leg => ({
+        distance: leg.distance,
+        duration: leg.duration,
+        steps: leg.steps.map(step => ({
+          instruction: stepInstruction(step),
+          name: step.name,
+          distance: step.distance,
+          duration: step.duration,
+          location: step.maneuver.location,
+        })),
+      })),
+    };
+  };
+}
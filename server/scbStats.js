@@ -0,0 +1,184 @@
+// SCB:s statistikdatabas (PX-Web API v1) — generiska kommunuttag för koropletkartan.
+// Tabeller anges med sökväg under ssd/, t.ex. AM/AM0210/AM0210D/ArRegArbStatus.
+
+import { upstreamFetch } from './metrics.js';
+
+const SCB_BASE = 'https://api.scb.se/OV0104/v1/doris/sv/ssd';
+const TABLE_PATH_RE = /^[A-Za-z0-9]+(\/[A-Za-z0-9]+){1,5}$/;
+const MAX_VALUES_PER_VAR = 1; // en karta = ett värde per kommun (och år)
+const MAX_CELLS = 100_000;      // SCB:s tak är 150 000 celler per fråga
+
+// Förvalda tabeller i panelen; defaults väljs när användaren inte angett något för variabeln
+export const SCB_TABLES = [
+  {
+    id: 'sysselsattning',
+    label: 'Sysselsättning (BAS)',
+    path: 'AM/AM0210/AM0210D/ArRegArbStatus',
+    defaults: { ContentsCode: '000002NS', Kon: '1+2', Alder: '16-64', Fodelseregion: 'tot' },
+  },
+  {
+    id: 'befolkning',
+    label: 'Folkmängd',
+    path: 'BE/BE0101/BE0101A/BefolkningNy',
+    defaults: { ContentsCode: 'BE0101N1' },
+  },
+  {
+    id: 'inkomst',
+    label: 'Sammanräknad förvärvsinkomst',
+    path: 'HE/HE0110/HE0110A/SamForvInk1',
+    defaults: {},
+  },
+];
+
+export class ScbQueryError extends Error {}
+
+export function validateTablePath(path) {
+  if (typeof path !== 'string' || !TABLE_PATH_RE.test(path)) {
+    throw new ScbQueryError('Ogiltig tabellsökväg, förväntade t.ex. AM/AM0210/AM0210D/ArRegArbStatus');
+  }
+  return path;
+}
+
+// Metadata → { title, variables: [{ code, text, time, elimination, values: [{ code, text }] }] }
+export async function fetchScbMetadata(path) {
+  validateTablePath(path);
+  const res = await upstreamFetch('scb', `${SCB_BASE}/${path}`);
+  if (res.status === 404 || res.status === 400) throw new ScbQueryError(`Okänd SCB-tabell: ${path}`);
+  if (!res.ok) throw new Error(`SCB metadata HTTP ${res.status}`);
+  const meta = await res.json();
+  // Mappar (inte tabeller) svarar med en lista av undernivåer
+  if (!Array.isArray(meta.variables)) throw new ScbQueryError(`${path} är ingen tabell`);
+  if (!meta.variables.some(v => v.code === 'Region')) {
+    throw new ScbQueryError('Tabellen saknar Region-variabel och kan inte visas per kommun');
+  }
+  if (!meta.variables.some(v => v.time)) {
+    throw new ScbQueryError('Tabellen saknar tidsvariabel');
+  }
+
+  return {
+    title: meta.title,
+    variables: meta.variables.map(v => ({
+      code: v.code,
+      text: v.text,
+      time: Boolean(v.time),
+      elimination: Boolean(v.elimination),
+      values: v.values.map((code, i) => ({ code, text: v.valueTexts[i] })),
+    })),
+  };
+}
+
+// Lös upp användarens val mot metadata: explicit val → tabellens default → eliminering → senaste år / första värdet
+export function resolveSelection(meta, requested = {}, defaults = {}) {
+  const selection = {};
+  for (const variable of meta.variables) {
+    if (variable.code === 'Region') continue;
+    const has = code => variable.values.some(v => v.code === code);
+    const wanted = requested[variable.code];
+
+    if (wanted !== undefined) {
+      const values = String(wanted).split(',');
+      if (values.length > MAX_VALUES_PER_VAR) {
+        throw new ScbQueryError(`Välj ett värde för ${variable.text}`);
+      }
+      if (!has(values[0])) throw new ScbQueryError(`Okänt värde för ${variable.text}: ${values[0]}`);
+      selection[variable.code] = values[0];
+    } else if (defaults[variable.code] && has(defaults[variable.code])) {
+      selection[variable.code] = defaults[variable.code];
+    } else if (variable.elimination) {
+      continue; // SCB summerar över variabeln när den utelämnas
+    } else if (variable.time) {
+      selection[variable.code] = variable.values[variable.values.length - 1].code;
+    } else {
+      selection[variable.code] = variable.values[0].code;
+    }
+  }
+  return selection;
+}
+
+export function timeVariable(meta) {
+  return meta.variables.find(v => v.time);
+}
+
+// Normaliserad form — används som cachenyckel. Tidsvariabeln ingår inte: alla år hämtas i samma fråga.
+export function selectionKey(path, meta, selection) {
+  const time = timeVariable(meta).code;
+  const parts = Object.keys(selection).filter(code => code !== time).sort().map(code => `${code}=${selection[code]}`);
+  return `${path}?${parts.join('&')}`;
+}
+
+// Kommunnamn → kod från Region-variabeln (4-siffriga koder = kommuner)
+export function municipalityCodes(meta) {
+  const region = meta.variables.find(v => v.code === 'Region');
+  const nameToKod = {};
+  for (const { code, text } of region.values) {
+    if (/^\d{4}$/.test(code)) nameToKod[text] = code;
+  }
+  return nameToKod;
+}
+
+// Län → tvåsiffrig kod; kommunkodens två första siffror anger länet
+export const COUNTIES = {
+  '01': 'Stockholms län', '03': 'Uppsala län', '04': 'Södermanlands län', '05': 'Östergötlands län',
+  '06': 'Jönköpings län', '07': 'Kronobergs län', '08': 'Kalmar län', '09': 'Gotlands län',
+  '10': 'Blekinge län', '12': 'Skåne län', '13': 'Hallands län', '14': 'Västra Götalands län',
+  '17': 'Värmlands län', '18': 'Örebro län', '19': 'Västmanlands län', '20': 'Dalarnas län',
+  '21': 'Gävleborgs län', '22': 'Västernorrlands län', '23': 'Jämtlands län', '24': 'Västerbottens län',
+  '25': 'Norrbottens län',
+};
+
+// "Norrbotten", "norrbottens län" eller "25" → '25'; null om inget län matchar
+export function countyCode(input) {
+  const value = String(input).trim().toLowerCase();
+  if (COUNTIES[value.padStart(2, '0')]) return value.padStart(2, '0');
+  const stem = value.replace(/\s*län$/, '').replace(/s$/, '');
+  const match = Object.entries(COUNTIES).find(([, name]) => name.toLowerCase().replace(/s? län$/, '') === stem);
+  return match ? match[0] : null;
+}
+
+// POST data för alla kommuner och alla år → { years, kodToSeries, unit }; serierna följer years
+export async function fetchScbSeries(path, meta, selection) {
+  const codes = Object.values(municipalityCodes(meta));
+  const time = timeVariable(meta);
+  // Senaste åren om hela serien skulle spräcka celltaket
+  const maxYears = Math.max(1, Math.floor(MAX_CELLS / codes.length));
+  const years = time.values.map(v => v.code).slice(-maxYears);
+
+  const query = {
+    query: [
+      { code: 'Region', selection: { filter: 'item', values: codes } },
+      { code: time.code, selection: { filter: 'item', values: years } },
+      ...Object.entries(selection)
+        .filter(([code]) => code !== time.code)
+        .map(([code, value]) => ({ code, selection: { filter: 'item', values: [value] } })),
+    ],
+    response: { format: 'json' },
+  };
+
+  const res = await upstreamFetch('scb', `${SCB_BASE}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(query),
+  });
+  if (!res.ok) {
+    const errText = await res.text();
+    throw new Error(`SCB data HTTP ${res.status}: ${errText.slice(0, 200)}`);
+  }
+  const data = await res.json();
+
+  // Nycklarna följer tabellens variabelordning, inte frågans — leta upp Region och tid
+  const keyColumns = data.columns.filter(c => c.type !== 'c');
+  const regionIndex = keyColumns.findIndex(c => c.code === 'Region');
+  const timeIndex = keyColumns.findIndex(c => c.code === time.code);
+  const yearIndex = Object.fromEntries(years.map((year, i) => [year, i]));
+
+  const kodToSeries = {};
+  for (const row of (data.data || [])) {
+    const kod = row.key[regionIndex];
+    const value = parseFloat(row.values[0]);
+    kodToSeries[kod] ??= years.map(() => null);
+    // SCB markerar saknade värden med ".." — blir null i serien
+    if (!isNaN(value)) kodToSeries[kod][yearIndex[row.key[timeIndex]]] = value;
+  }
+  const contents = data.columns.find(c => c.type === 'c');
+  return { years, kodToSeries, unit: contents?.unit ?? null };
+}
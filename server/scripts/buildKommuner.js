@@ -0,0 +1,90 @@
+// Bygger server/data/kommuner.geojson från GADM 4.1 (nivå 2) med SCB:s kommunkoder.
+// Körs manuellt när kommunindelningen ändras: npm run build:kommuner
+// Namnmatchningen sker bara här, en gång — allt som inte går att matcha stoppar bygget.
+
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { SCB_TABLES, fetchScbMetadata, municipalityCodes } from '../scbStats.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const OUT_FILE = join(__dirname, '..', 'data', 'kommuner.geojson');
+const GADM_URL = 'https://geodata.ucdavis.edu/gadm/gadm4.1/json/gadm41_SWE_2.json';
+const PRECISION = 1e4; // 4 decimaler ≈ 10 m, räcker för en koropletkarta
+
+// GADM-namn som skiljer sig från SCB:s utöver diakritik, versaler, bindestreck och mellanslag
+const OVERRIDES = {
+  'Malung': '2023', // Malung-Sälen
+};
+
+function normalizeName(name) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+(kommun|stad)$/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function roundCoords(coords) {
+  if (typeof coords[0] === 'number') {
+    return [Math.round(coords[0] * PRECISION) / PRECISION, Math.round(coords[1] * PRECISION) / PRECISION];
+  }
+  const rounded = coords.map(roundCoords);
+  // Ta bort punkter som sammanfaller efter avrundning (ringar), men behåll giltiga ringar för små öar
+  if (typeof coords[0][0] === 'number') {
+    const deduped = rounded.filter((p, i) => i === 0 || p[0] !== rounded[i - 1][0] || p[1] !== rounded[i - 1][1]);
+    return deduped.length >= 4 ? deduped : rounded;
+  }
+  return rounded;
+}
+
+async function main() {
+  const meta = await fetchScbMetadata(SCB_TABLES[0].path);
+  const nameToKod = municipalityCodes(meta);
+  const kodToName = Object.fromEntries(Object.entries(nameToKod).map(([namn, kod]) => [kod, namn]));
+  const normalized = Object.fromEntries(Object.entries(nameToKod).map(([namn, kod]) => [normalizeName(namn), kod]));
+  console.log(`SCB: ${Object.keys(kodToName).length} kommuner`);
+
+  const res = await fetch(GADM_URL);
+  if (!res.ok) throw new Error(`GADM HTTP ${res.status}`);
+  const gadm = await res.json();
+
+  const unmatched = [];
+  const byKod = new Map();
+  for (const f of gadm.features.filter(f => f.properties.ENGTYPE_2 === 'Municipality')) {
+    const name = f.properties.NAME_2 || '';
+    const cc = f.properties.CC_2;
+    const kod = OVERRIDES[name]
+      ?? (kodToName[cc] ? cc : null)
+      ?? normalized[normalizeName(name)]
+      ?? null;
+    if (!kod) {
+      unmatched.push(name);
+      continue;
+    }
+    if (byKod.has(kod)) throw new Error(`Två GADM-features matchar kommunkod ${kod}: ${byKod.get(kod).properties.namn}, ${name}`);
+    byKod.set(kod, {
+      type: 'Feature',
+      properties: { kod, namn: kodToName[kod] },
+      geometry: { type: f.geometry.type, coordinates: roundCoords(f.geometry.coordinates) },
+    });
+  }
+
+  if (unmatched.length > 0) {
+    console.error('Kunde inte matcha (lägg till i OVERRIDES):', unmatched);
+    process.exit(1);
+  }
+  const missing = Object.keys(kodToName).filter(kod => !byKod.has(kod));
+  if (missing.length > 0) console.warn('SCB-koder utan gräns:', missing.map(kod => `${kod} ${kodToName[kod]}`));
+
+  const features = [...byKod.values()].sort((a, b) => a.properties.kod.localeCompare(b.properties.kod));
+  await mkdir(dirname(OUT_FILE), { recursive: true });
+  await writeFile(OUT_FILE, JSON.stringify({ type: 'FeatureCollection', features }));
+  console.log(`Skrev ${features.length} kommuner till ${OUT_FILE}`);
+}
+
+main().catch(e => {
+  console.error(e.message);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+import { mkdir, readFile, readdir, rename, stat, unlink, utimes, writeFile } from 'fs/promises';
+import { createHash, randomUUID } from 'crypto';
+import { dirname, join, relative, sep } from 'path';
+import proj4 from 'proj4';
+import { log } from './logger.js';
+
+// Disk-backed WMTS tile store: <dir>/<layer>/<style>/<matrixSet>/<format>/<z>/<x>/<y>.<ext>
+// Index hålls i minnet i LRU-ordning (Map-insättningsordning) och byggs om från disk vid start.
+
+proj4.defs('EPSG:3006', '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
+
+const EXT_TO_TYPE = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+const TYPE_TO_EXT = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+const SAFE_SEGMENT = /^[\w.-]+$/;
+
+// Stil och format ingår i nyckeln — samma tile som PNG och JPEG är två olika poster.
+// Format som inte går att spara med rätt filändelse cachas inte.
+export function tileKey({ layer, style, matrixSet, format, z, x, y }) {
+  const ext = TYPE_TO_EXT[String(format).toLowerCase()];
+  if (!ext) return null;
+  const parts = [layer, style || 'default', matrixSet, ext, z, x, y].map(String);
+  if (!parts.every(p => SAFE_SEGMENT.test(p) && p !== '..')) return null;
+  return parts.join('/');
+}
+
+function etagOf(buffer) {
+  return `"${createHash('sha1').update(buffer).digest('hex')}"`;
+}
+
+export function createTileCache({ dir, maxBytes }) {
+  const index = new Map(); // key → { file, size, mtime, etag? }
+  let totalBytes = 0;
+  let hits = 0;
+  let misses = 0;
+
+  async function scan(path) {
+    let entries;
+    try {
+      entries = await readdir(path, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const files = [];
+    for (const entry of entries) {
+      const full = join(path, entry.name);
+      if (entry.isDirectory()) files.push(...await scan(full));
+      else if (!entry.name.endsWith('.tmp')) files.push(full);
+    }
+    return files;
+  }
+
+  async function init() {
+    await mkdir(dir, { recursive: true });
+    const found = [];
+    for (const file of await scan(dir)) {
+      const st = await stat(file);
+      const key = relative(dir, file).split(sep).join('/').replace(/\.\w+$/, '');
+      found.push({ key, file, size: st.size, mtime: st.mtimeMs, atime: st.atimeMs });
+    }
+    // Senast använda (atime) sist → äldst använda evicteras först
+    found.sort((a, b) => a.atime - b.atime);
+    for (const { key, file, size, mtime } of found) {
+      const entry = { file, size, mtime };
+      index.set(key, entry);
+      totalBytes += entry.size;
+    }
+    log.info('Tile cache loaded', { tiles: index.size, megabytes: Math.round(totalBytes / 1e5) / 10, dir });
+    await evict();
+  }
+
+  async function evict() {
+    for (const [key, entry] of index) {
+      if (totalBytes <= maxBytes) break;
+      index.delete(key);
+      totalBytes -= entry.size;
+      await unlink(entry.file).catch(() => {});
+    }
+  }
+
+  // Returnerar { buffer, etag, contentType, age } eller null
+  async function get(key) {
+    const entry = index.get(key);
+    if (!entry) {
+      misses++;
+      return null;
+    }
+    let buffer;
+    try {
+      buffer = await readFile(entry.file);
+    } catch {
+      index.delete(key);
+      totalBytes -= entry.size;
+      misses++;
+      return null;
+    }
+    hits++;
+    entry.etag ??= etagOf(buffer);
+    // Flytta sist i LRU-ordningen; atime på disk så ordningen överlever omstart (mtime = hämtad)
+    index.delete(key);
+    index.set(key, entry);
+    utimes(entry.file, new Date(), new Date(entry.mtime)).catch(() => {});
+    const ext = entry.file.split('.').pop();
+    return {
+      buffer,
+      etag: entry.etag,
+      contentType: EXT_TO_TYPE[ext] || 'application/octet-stream',
+      age: Date.now() - entry.mtime,
+    };
+  }
+
+  function has(key) {
+    return index.has(key);
+  }
+
+  async function put(key, buffer, contentType) {
+    const ext = TYPE_TO_EXT[contentType.split(';')[0].trim()] || 'bin';
+    const file = join(dir, ...key.split('/')) + `.${ext}`;
+    await mkdir(dirname(file), { recursive: true });
+    // Unikt tmp-namn: en seed och en vanlig tile-förfrågan kan skriva samma tile samtidigt
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    const etag = etagOf(buffer);
+    try {
+      await writeFile(tmp, buffer);
+      await rename(tmp, file);
+    } catch (e) {
+      // Tilen går fortfarande att leverera — den cachas bara inte den här gången
+      await unlink(tmp).catch(() => {});
+      log.warn('Tile cache write failed', { key, err: e.message });
+      return etag;
+    }
+
+    const previous = index.get(key);
+    if (previous) {
+      totalBytes -= previous.size;
+      index.delete(key);
+      if (previous.file !== file) await unlink(previous.file).catch(() => {});
+    }
+    const entry = { file, size: buffer.length, mtime: Date.now(), etag };
+    index.set(key, entry);
+    totalBytes += entry.size;
+    await evict();
+    return etag;
+  }
+
+  function stats() {
+    return { tiles: index.size, bytes: totalBytes, maxBytes, hits, misses };
+  }
+
+  return { init, get, has, put, stats };
+}
+
+// Tile-intervall per nivå för en bbox (WGS84: [west, south, east, north]) i ett parsat tile matrix set
+export function tileRanges(tms, bbox, minZoom, maxZoom) {
+  const [west, south, east, north] = bbox;
+  const corners = [[west, south], [west, north], [east, south], [east, north]]
+    .map(c => proj4('EPSG:4326', tms.crs, c));
+  const minX = Math.min(...corners.map(c => c[0]));
+  const maxX = Math.max(...corners.map(c => c[0]));
+  const minY = Math.min(...corners.map(c => c[1]));
+  const maxY = Math.max(...corners.map(c => c[1]));
+
+  const ranges = [];
+  for (let z = minZoom; z <= Math.min(maxZoom, tms.resolutions.length - 1); z++) {
+    const span = tms.tileSize * tms.resolutions[z];
+    const [width, height] = tms.matrixSizes?.[z] ?? [];
+    const minCol = Math.floor((minX - tms.origin[0]) / span);
+    const maxCol = Math.floor((maxX - tms.origin[0]) / span);
+    const minRow = Math.floor((tms.origin[1] - maxY) / span);
+    const maxRow = Math.floor((tms.origin[1] - minY) / span);
+    // Bara tiles som finns i matrisen; en bbox helt utanför ger ingen nivå alls
+    const lastCol = width > 0 ? width - 1 : Infinity;
+    const lastRow = height > 0 ? height - 1 : Infinity;
+    if (maxCol < 0 || maxRow < 0 || minCol > lastCol || minRow > lastRow) continue;
+    ranges.push({
+      z,
+      matrixId: tms.matrixIds[z],
+      minCol: Math.max(0, minCol),
+      maxCol: Math.min(lastCol, maxCol),
+      minRow: Math.max(0, minRow),
+      maxRow: Math.min(lastRow, maxRow),
+    });
+  }
+  return ranges;
+}
@@ -0,0 +1,90 @@
+import { XMLParser } from 'fast-xml-parser';
+
+// Parsning av WMTS GetCapabilities → lagerkatalog för klienten
+
+const ARRAY_PATHS = new Set([
+  'Capabilities.Contents.Layer',
+  'Capabilities.Contents.Layer.Format',
+  'Capabilities.Contents.Layer.Style',
+  'Capabilities.Contents.Layer.TileMatrixSetLink',
+  'Capabilities.Contents.TileMatrixSet',
+  'Capabilities.Contents.TileMatrixSet.TileMatrix',
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: (_name, jpath) => ARRAY_PATHS.has(jpath),
+});
+
+// Pixelstorlek enligt WMTS-standarden (0.28 mm)
+const PIXEL_SIZE = 0.00028;
+
+// CRS där TopLeftCorner anges som nord/öst (lat/lon) i stället för x/y
+const NORTHING_FIRST = new Set(['EPSG:3006', 'EPSG:4326']);
+
+function text(node) {
+  if (node === undefined || node === null) return '';
+  return typeof node === 'object' ? String(node['#text'] ?? '') : String(node);
+}
+
+// urn:ogc:def:crs:EPSG::3006 / EPSG:3006 → EPSG:3006
+function normalizeCrs(crs) {
+  const m = text(crs).match(/EPSG:(?:[\d.]*:)?(\d+)$/);
+  return m ? `EPSG:${m[1]}` : text(crs);
+}
+
+function parseTileMatrixSet(tms) {
+  const crs = normalizeCrs(tms.SupportedCRS);
+  const matrices = (tms.TileMatrix || [])
+    .map(tm => ({
+      id: text(tm.Identifier),
+      resolution: Number(text(tm.ScaleDenominator)) * PIXEL_SIZE,
+      corner: text(tm.TopLeftCorner).trim().split(/\s+/).map(Number),
+      tileSize: Number(text(tm.TileWidth)) || 256,
+      matrixWidth: Number(text(tm.MatrixWidth)),
+      matrixHeight: Number(text(tm.MatrixHeight)),
+    }))
+    .sort((a, b) => b.resolution - a.resolution);
+  if (matrices.length === 0) return null;
+
+  const top = matrices[0];
+  const origin = NORTHING_FIRST.has(crs) ? [top.corner[1], top.corner[0]] : [top.corner[0], top.corner[1]];
+  const span = top.tileSize * top.resolution;
+  return {
+    id: text(tms.Identifier),
+    crs,
+    tileSize: top.tileSize,
+    origin,
+    extent: [origin[0], origin[1] - top.matrixHeight * span, origin[0] + top.matrixWidth * span, origin[1]],
+    resolutions: matrices.map(m => m.resolution),
+    matrixIds: matrices.map(m => m.id),
+    matrixSizes: matrices.map(m => [m.matrixWidth, m.matrixHeight]), // [kolumner, rader] per nivå
+  };
+}
+
+export function parseCapabilities(xml) {
+  const doc = parser.parse(xml);
+  const contents = doc.Capabilities?.Contents;
+  if (!contents) throw new Error('WMTS: Contents saknas i GetCapabilities');
+
+  const matrixSets = {};
+  for (const tms of contents.TileMatrixSet || []) {
+    const parsed = parseTileMatrixSet(tms);
+    if (parsed) matrixSets[parsed.id] = parsed;
+  }
+
+  const layers = (contents.Layer || []).map(layer => ({
+    id: text(layer.Identifier),
+    title: text(layer.Title) || text(layer.Identifier),
+    formats: (layer.Format || []).map(text),
+    style: text((layer.Style || []).find(s => s.isDefault === 'true')?.Identifier) || 'default',
+    matrixSets: (layer.TileMatrixSetLink || [])
+      .map(link => matrixSets[text(link.TileMatrixSet)])
+      .filter(Boolean),
+  }));
+
+  return { layers };
+}
@@ -1,125 +1,124 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { Fragment, useEffect, useLayoutEffect, useRef, useState, useCallback, type ReactNode } from 'react';
 import Map from 'ol/Map';
-import View from 'ol/View';
 import TileLayer from 'ol/layer/Tile';
-import WMTS from 'ol/source/WMTS';
-import WMTSTileGrid from 'ol/tilegrid/WMTS';
 import OSM from 'ol/source/OSM';
 import VectorLayer from 'ol/layer/Vector';
 import VectorSource from 'ol/source/Vector';
 import Feature from 'ol/Feature';
-import Point from 'ol/geom/Point';
-import { Icon, Style, Circle as CircleStyle, Fill, Stroke } from 'ol/style';
-import GeoJSON from 'ol/format/GeoJSON';
+import { Style } from 'ol/style';
 import Overlay from 'ol/Overlay';
-import { fromLonLat } from 'ol/proj';
-import { transformExtent } from 'ol/proj';
+import type BaseLayer from 'ol/layer/Base';
+import type { FeatureLike } from 'ol/Feature';
+import type { Coordinate } from 'ol/coordinate';
+import { getCenter } from 'ol/extent';
+import { fromLonLat, getPointResolution, toLonLat, transform, transformExtent } from 'ol/proj';
 import ScaleLine from 'ol/control/ScaleLine';
+import Draw from 'ol/interaction/Draw';
+import Modify from 'ol/interaction/Modify';
+import Select from 'ol/interaction/Select';
+import Translate from 'ol/interaction/Translate';
 import Zoom from 'ol/control/Zoom';
 import 'ol/ol.css';
 import './App.css';
-
-// Lantmäteriet 3857 tile grid (from GetCapabilities)
-// 16 zoom levels (0-15), standard Web Mercator
-const lmResolutions = [
-  559082264.028717875 * 0.00028,  // 0
-  279541132.014358878 * 0.00028,  // 1
-  139770566.007179409 * 0.00028,  // 2
-  69885283.003589719 * 0.00028,   // 3
-  34942641.501794859 * 0.00028,   // 4
-  17471320.750897429 * 0.00028,   // 5
-  8735660.375448714 * 0.00028,    // 6
-  4367830.187724357 * 0.00028,    // 7
-  2183915.093862178 * 0.00028,    // 8
-  1091957.546931088 * 0.00028,    // 9
-  545978.773465544 * 0.00028,     // 10
-  272989.386732772 * 0.00028,     // 11
-  136494.693366386 * 0.00028,     // 12
-  68247.346683193 * 0.00028,      // 13
-  34123.673341596 * 0.00028,      // 14
-  17061.836670798 * 0.00028,      // 15
-];
-const lmMatrixIds = Array.from({ length: 16 }, (_, i) => String(i));
+import { PROJECTIONS, createView, formatCoordinate, type ProjectionMode } from './projection';
+import { OSM_LAYER_ID, createWmtsSource, type CatalogueLayer } from './layers';
+import LayerPicker, { DEFAULT_BASE_OPACITY, DEFAULT_OVERLAY_OPACITY } from './LayerPicker';
+import { formatMapHash, parseMapHash, withoutView, type MapState } from './permalink';
+import { measureStyle, type MeasureMode } from './measure';
+import {
+  DEFAULT_SKETCH_COLOR, defaultSketchName, downloadSketch, loadSketch, saveSketch, sketchStyle,
+  type SketchExportFormat, type SketchMode,
+} from './sketch';
+import SketchPanel from './SketchPanel';
+import type { Waypoint } from './routing';
+import {
+  ChatStreamError, readEventStream, type ChatHistoryMessage, type ChatPlace, type MapContext, type ToolTrace,
+} from './chatStream';
+import ToolTraceList from './ToolTraceList';
+import ChatPlaces from './ChatPlaces';
+import { chooseCandidate } from './aiPlaces';
+import { formatCountdown, retryAfterSeconds, useCountdown } from './rateLimit';
+import {
+  GeocodeError, reverseGeocode, searchPlaces, shortPlaceName, type GeocodeResult, type ReverseResult,
+} from './geocoding';
+import { findSelected, overlayIdOf, tagLayer, type MapOverlay, type OverlayContext } from './overlays';
+import { useMarkerOverlay } from './markerOverlay';
+import { useStatOverlay } from './statOverlay';
+import { useImportOverlay } from './importOverlay';
+import { useRouteOverlay } from './routeOverlay';
+import { usePoiOverlay } from './poiOverlay';
+import { useAiOverlay } from './aiOverlay';
 
 const apiBase = import.meta.env.DEV ? 'http://localhost:3000' : '';
 
-type BaseLayer = 'lantmateriet' | 'osm';
-
-interface SearchResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-}
-
-interface POI {
-  id: number;
-  name: string;
-  lat: number;
-  lon: number;
-  tags: Record<string, string>;
-}
-
-interface AIPlace {
-  name: string;
-  lat: number;
-  lon: number;
-  description: string;
-}
-
 interface ChatMessage {
   role: 'user' | 'ai';
   text: string;
-  places?: AIPlace[];
+  places?: ChatPlace[];
+  trace?: ToolTrace[];
+  error?: boolean; // felmeddelanden visas men skickas inte med i historiken
 }
 
-const POI_CATEGORIES = [
-  { id: 'restauranger', label: 'Restauranger', emoji: '\u{1F37D}', color: '#f97316' },
-  { id: 'kafeer', label: 'Kaféer', emoji: '\u2615', color: '#92400e' },
-  { id: 'parker', label: 'Parker', emoji: '\u{1F333}', color: '#22c55e' },
-  { id: 'laddstationer', label: 'Laddstationer', emoji: '\u26A1', color: '#eab308' },
-  { id: 'busshallplatser', label: 'Busshållplatser', emoji: '\u{1F68C}', color: '#3b82f6' },
-] as const;
-
-type PoiCategory = typeof POI_CATEGORIES[number]['id'];
-
-function sysselsattningColor(pct: number): string {
-  // 65% → red, 80% → green (linear interpolation)
-  const t = Math.max(0, Math.min(1, (pct - 65) / 15));
-  const r = Math.round(220 - t * 165);
-  const g = Math.round(60 + t * 140);
-  return `rgba(${r},${g},60,0.75)`;
+const DEFAULT_CENTER: [number, number] = [18.07, 59.33]; // Stockholm
+const DEFAULT_ZOOM = 5;
+
+function AddressPopup({ place }: { place: ReverseResult }) {
+  const locality = [place.postcode, place.locality].filter(Boolean).join(' ');
+  return (
+    <>
+      <strong>{shortPlaceName(place)}</strong>
+      {locality && <div>{locality}</div>}
+      {place.municipality && <div className="poi-popup-type">{place.municipality}</div>}
+      {place.county && place.county !== place.municipality && <div>{place.county}</div>}
+    </>
+  );
 }
 
 function App() {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<Map | null>(null);
-  const lmLayerRef = useRef<TileLayer | null>(null);
-  const osmLayerRef = useRef<TileLayer | null>(null);
-  const markerSource = useRef<VectorSource>(new VectorSource());
-  const poiSource = useRef<VectorSource>(new VectorSource());
-  const aiSource = useRef<VectorSource>(new VectorSource());
-  const poiLayerRef = useRef<VectorLayer | null>(null);
-  const aiLayerRef = useRef<VectorLayer | null>(null);
-  const sysSattSource = useRef<VectorSource>(new VectorSource());
-  const sysSattLayerRef = useRef<VectorLayer | null>(null);
-  const showSysselsattningRef = useRef(false);
-  const loadingSyssRef = useRef(false);
+  const baseTileLayerRef = useRef<TileLayer | null>(null);
+  const overlayTileLayerRef = useRef<TileLayer | null>(null);
+  const osmSource = useRef(new OSM());
+  const measureSource = useRef<VectorSource>(new VectorSource());
+  const measureModeRef = useRef<MeasureMode | null>(null);
+  const sketchSource = useRef<VectorSource>(new VectorSource());
+  const sketchLayerRef = useRef<VectorLayer | null>(null);
+  const sketchModeRef = useRef<SketchMode | null>(null);
+  const selectedSketchRef = useRef<Feature | null>(null);
   const popupRef = useRef<HTMLDivElement>(null);
   const popupOverlay = useRef<Overlay | null>(null);
   const coordRef = useRef<HTMLSpanElement>(null);
   const zoomRef = useRef<HTMLSpanElement>(null);
-  const [zoomLevel, setZoomLevel] = useState(5);
-  const [baseLayer, setBaseLayer] = useState<BaseLayer>('osm');
+  const [initialMapState] = useState(() => parseMapHash(window.location.hash));
+  const [zoomLevel, setZoomLevel] = useState(initialMapState.zoom !== undefined ? Math.round(initialMapState.zoom) : DEFAULT_ZOOM);
+  const [viewVersion, setViewVersion] = useState(0);
+  const [catalogue, setCatalogue] = useState<CatalogueLayer[]>([]);
+  const [baseLayer, setBaseLayer] = useState<string>(initialMapState.base ?? OSM_LAYER_ID);
+  const [overlayLayer, setOverlayLayer] = useState<string | null>(initialMapState.overlay ?? null);
+  const [layerOpacity, setLayerOpacity] = useState<Record<string, number>>({});
+  const [projectionMode, setProjectionMode] = useState<ProjectionMode>(initialMapState.proj ?? '3857');
+  const [selection, setSelection] = useState<string | null>(null);
+  const pendingSelectionRef = useRef<string | null>(null);
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<GeocodeResult[]>([]);
   const [searching, setSearching] = useState(false);
   const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const [showSysselsattning, setShowSysselsattning] = useState(false);
-  const [activePoiCategory, setActivePoiCategory] = useState<PoiCategory | null>(null);
-  const [loadingPois, setLoadingPois] = useState(false);
-  const activeCategoryRef = useRef<PoiCategory | null>(null);
-  const poiDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchAbort = useRef<AbortController | null>(null);
+
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [measureCount, setMeasureCount] = useState(0);
+  const [sketchOpen, setSketchOpen] = useState(false);
+  const [sketchMode, setSketchMode] = useState<SketchMode | null>(null);
+  const [sketchCount, setSketchCount] = useState(0);
+  const [selectedSketch, setSelectedSketch] = useState<Feature | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  // Innehåll och position för popupen, null = stängd
+  const [popup, setPopup] = useState<{ body: ReactNode; position: Coordinate } | null>(null);
+  // Plats i öppen popup som kan läggas till som ruttpunkt (POI, AI-plats, importerad punkt, adress)
+  const [popupPlace, setPopupPlace] = useState<Omit<Waypoint, 'id'> | null>(null);
+  // Feature i öppen popup och överlägget den hör till — beskriver valet i chattens kartkontext
+  const [popupFeature, setPopupFeature] = useState<{ overlay: MapOverlay; feature: FeatureLike } | null>(null);
 
   // Chat state
   const [chatOpen, setChatOpen] = useState(false);
@@ -127,190 +126,206 @@ function App() {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatLoading, setChatLoading] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const [chatWait, startChatWait] = useCountdown();
 
-  const fetchPois = useCallback(async (category: PoiCategory) => {
-    const map = mapInstance.current;
-    if (!map) return;
+  const reverseAbort = useRef<AbortController | null>(null);
+  const overlaysRef = useRef<MapOverlay[]>([]);
 
-    const extent = map.getView().calculateExtent(map.getSize());
-    const [west, south, east, north] = transformExtent(extent, 'EPSG:3857', 'EPSG:4326');
-    const bbox = `${south},${west},${north},${east}`;
+  const closePopup = useCallback(() => {
+    reverseAbort.current?.abort();
+    setPopup(null);
+    setSelection(null);
+    setPopupPlace(null);
+    setPopupFeature(null);
+  }, []);
 
-    setLoadingPois(true);
-    try {
-      const res = await fetch(`${apiBase}/api/pois?category=${category}&bbox=${bbox}`);
-      if (!res.ok) throw new Error('POI fetch failed');
-      const pois: POI[] = await res.json();
-
-      // Only update if this category is still active
-      if (activeCategoryRef.current !== category) return;
-
-      const catDef = POI_CATEGORIES.find(c => c.id === category)!;
-      poiSource.current.clear();
-
-      const features = pois.map(poi => {
-        const f = new Feature({
-          geometry: new Point(fromLonLat([poi.lon, poi.lat])),
-          poiName: poi.name || 'Okänd',
-          poiCategory: catDef.label,
-          poiTags: poi.tags,
-        });
-        f.setStyle(new Style({
-          image: new CircleStyle({
-            radius: 7,
-            fill: new Fill({ color: catDef.color }),
-            stroke: new Stroke({ color: '#fff', width: 2 }),
-          }),
-        }));
-        return f;
-      });
+  // Popup för en feature — innehållet kommer från överlägget som äger den
+  const openFeaturePopup = useCallback((overlay: MapOverlay, feature: FeatureLike, coordinate: Coordinate) => {
+    const content = overlay.popup?.(feature, coordinate);
+    if (!content) return;
+    reverseAbort.current?.abort();
+    setPopup({ body: content.body, position: content.position ?? coordinate });
+    setPopupPlace(content.place ?? null);
+    setPopupFeature({ overlay, feature });
+    setSelection(overlay.selectionId?.(feature) ?? null);
+  }, []);
 
-      poiSource.current.addFeatures(features);
+  // Adress och kommun för en punkt på kartan (högerklick eller långt tryck)
+  const openAddressPopup = useCallback(async (coordinate: Coordinate) => {
+    const projection = mapInstance.current?.getView().getProjection();
+    if (!projection) return;
+    reverseAbort.current?.abort();
+    const controller = new AbortController();
+    reverseAbort.current = controller;
+    const lonLat = toLonLat(coordinate, projection) as [number, number];
+
+    setSelection(null);
+    setPopupPlace(null);
+    setPopupFeature(null);
+    setPopup({ body: 'Hämtar adress…', position: coordinate });
+    try {
+      const place = await reverseGeocode(apiBase, lonLat, controller.signal);
+      setPopup({ body: <AddressPopup place={place} />, position: coordinate });
+      setPopupPlace({ name: shortPlaceName(place), lonLat });
     } catch (e) {
-      console.error('POI error:', e);
+      if (controller.signal.aborted) return;
+      setPopup({ body: e instanceof GeocodeError ? e.message : 'Kunde inte hämta adressen', position: coordinate });
     }
-    setLoadingPois(false);
   }, []);
 
-  const togglePoiCategory = useCallback((categoryId: PoiCategory) => {
-    if (activeCategoryRef.current === categoryId) {
-      // Deactivate
-      activeCategoryRef.current = null;
-      setActivePoiCategory(null);
-      poiSource.current.clear();
-      if (popupOverlay.current) popupOverlay.current.setPosition(undefined);
-    } else {
-      // Activate
-      activeCategoryRef.current = categoryId;
-      setActivePoiCategory(categoryId);
-      if (popupOverlay.current) popupOverlay.current.setPosition(undefined);
-      fetchPois(categoryId);
-    }
-  }, [fetchPois]);
-
-  const toggleSysselsattning = useCallback(async () => {
-    const nextShow = !showSysselsattningRef.current;
-    showSysselsattningRef.current = nextShow;
-    setShowSysselsattning(nextShow);
-
-    if (sysSattLayerRef.current) {
-      sysSattLayerRef.current.setVisible(nextShow);
-    }
-
-    if (!nextShow && popupOverlay.current) {
-      popupOverlay.current.setPosition(undefined);
-    }
-
-    if (nextShow && sysSattSource.current.getFeatures().length === 0 && !loadingSyssRef.current) {
-      loadingSyssRef.current = true;
-      try {
-        const res = await fetch(`${apiBase}/api/kommuner-sysselsattning`);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const geojson = await res.json();
-
-        const format = new GeoJSON();
-        const features = format.readFeatures(geojson, { featureProjection: 'EPSG:3857' });
-
-        for (const feature of features) {
-          const value = feature.get('sysselsattning');
-          feature.setStyle(new Style({
-            fill: new Fill({
-              color: value !== null && value !== undefined
-                ? sysselsattningColor(value)
-                : 'rgba(120,120,120,0.5)',
-            }),
-            stroke: new Stroke({ color: '#ffffff44', width: 0.5 }),
-          }));
-        }
+  // Flytta popupen först när React ritat innehållet, så att autoPan räknar med rätt storlek
+  useLayoutEffect(() => {
+    popupOverlay.current?.setPosition(popup?.position);
+  }, [popup]);
+
+  // Öppna vald feature från URL:en när dess lager har laddats
+  const restorePendingSelection = useCallback(() => {
+    const sel = pendingSelectionRef.current;
+    const found = sel ? findSelected(overlaysRef.current, sel) : null;
+    if (!found) return;
+    pendingSelectionRef.current = null;
+    openFeaturePopup(found.overlay, found.feature, getCenter(found.feature.getGeometry()!.getExtent()));
+  }, [openFeaturePopup]);
+
+  // ── Överlägg ──────────────────────────────────────────────────────────────
+  // Ett nytt datalager är en modul med en use…Overlay-hook och en rad här. Ordningen är ritordningen
+  // (nedersta först) och ordningen i POI-raden; lager med zIndex hamnar ovanför oavsett ordning.
+  const overlayContext: OverlayContext = { apiBase, mapRef: mapInstance, closePopup, restorePendingSelection };
+  const marker = useMarkerOverlay(overlayContext);
+  const poi = usePoiOverlay(overlayContext);
+  const stat = useStatOverlay(overlayContext);
+  const ai = useAiOverlay(overlayContext);
+  const imports = useImportOverlay(overlayContext);
+  const route = useRouteOverlay(overlayContext, marker.marker && { name: query || 'Sökt plats', lonLat: marker.marker });
+  const overlays: MapOverlay[] = [route, marker, poi, stat, ai, imports];
 
-        sysSattSource.current.addFeatures(features);
-      } catch (e) {
-        console.error('Sysselsättning fetch error:', e);
-        showSysselsattningRef.current = false;
-        setShowSysselsattning(false);
-        if (sysSattLayerRef.current) sysSattLayerRef.current.setVisible(false);
-      } finally {
-        loadingSyssRef.current = false;
-      }
-    }
-  }, []);
+  useEffect(() => {
+    overlaysRef.current = overlays;
+  });
 
-  // Plot AI places on map
-  const plotAIPlaces = useCallback((places: AIPlace[]) => {
-    aiSource.current.clear();
-    if (places.length === 0) return;
-
-    const features = places.map(place => {
-      const f = new Feature({
-        geometry: new Point(fromLonLat([place.lon, place.lat])),
-        poiName: place.name,
-        poiCategory: 'AI-svar',
-        poiTags: { description: place.description },
-      });
-      f.setStyle(new Style({
-        image: new Icon({
-          anchor: [0.5, 1],
-          scale: 1.5,
-          src: 'data:image/svg+xml,' + encodeURIComponent(
-            '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="32" viewBox="0 0 24 32">' +
-            '<path d="M12 0C5.4 0 0 5.4 0 12c0 9 12 20 12 20s12-11 12-20C24 5.4 18.6 0 12 0z" fill="%239333ea"/>' +
-            '<circle cx="12" cy="11" r="4" fill="white"/>' +
-            '</svg>'
-          ),
-        }),
-      }));
-      return f;
-    });
+  // Håll en öppen popup i takt med sitt överlägg (t.ex. kommunpopupen när året byts)
+  const popupRevision = JSON.stringify(overlays.map(o => o.popupRevision ?? null));
+  useEffect(() => {
+    const found = selection ? findSelected(overlaysRef.current, selection) : null;
+    const position = popupOverlay.current?.getPosition();
+    if (found && position) openFeaturePopup(found.overlay, found.feature, position);
+  }, [popupRevision, selection, openFeaturePopup]);
 
-    aiSource.current.addFeatures(features);
+  // Chattens platser ritas med plats för panelen till vänster när den är öppen
+  const chatFitPadding = () => [80, 80, 80, chatOpen ? 430 : 80];
 
-    // Fit view to show all AI places
+  // Vad kartan visar just nu — följer med chattfrågan så att "här" och "den valda" går att tolka
+  const mapContext = (): MapContext | undefined => {
     const map = mapInstance.current;
-    if (map && features.length > 0) {
-      const extent = aiSource.current.getExtent();
-      if (!extent) return;
-      map.getView().fit(extent, {
-        padding: [80, 80, 80, chatOpen ? 430 : 80],
-        maxZoom: 14,
-        duration: 800,
-      });
-    }
-  }, [chatOpen]);
+    if (!map) return undefined;
+    const view = map.getView();
+    const [west, south, east, north] = transformExtent(view.calculateExtent(map.getSize()), view.getProjection(), 'EPSG:4326');
+    const layerTitle = (id: string) => (id === OSM_LAYER_ID ? 'OpenStreetMap' : catalogue.find(l => l.id === id)?.title ?? id);
+    const layers = [
+      layerTitle(baseLayer),
+      ...(overlayLayer ? [layerTitle(overlayLayer)] : []),
+      ...overlays.flatMap(o => o.contextLayers),
+    ];
+
+    let selected: MapContext['selected'];
+    if (popupFeature?.overlay.describe) selected = popupFeature.overlay.describe(popupFeature.feature);
+
+    return {
+      bbox: [Math.max(west, -180), Math.max(south, -90), Math.min(east, 180), Math.min(north, 90)],
+      zoom: view.getZoom() ?? 0,
+      layers,
+      selected,
+    };
+  };
 
-  // Send chat message
-  const sendChatMessage = useCallback(async () => {
+  // Skicka frågan med hela konversationen; svaret strömmas in i ett tomt AI-meddelande
+  const sendChatMessage = async () => {
     const msg = chatInput.trim();
-    if (!msg || chatLoading) return;
-
+    if (!msg || chatLoading || chatWait > 0) return;
+
+    const history: ChatHistoryMessage[] = [
+      ...chatMessages.filter(m => !m.error).map(m => ({
+        role: m.role === 'ai' ? 'assistant' as const : 'user' as const,
+        content: m.text,
+        places: m.places,
+      })),
+      { role: 'user', content: msg },
+    ];
     setChatInput('');
-    setChatMessages(prev => [...prev, { role: 'user', text: msg }]);
+    setChatMessages(prev => [...prev, { role: 'user', text: msg }, { role: 'ai', text: '' }]);
     setChatLoading(true);
 
+    const updateAnswer = (update: (m: ChatMessage) => ChatMessage) => {
+      setChatMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+    };
+
     try {
       const res = await fetch(`${apiBase}/api/chat`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: msg }),
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify({ messages: history, context: mapContext() }),
       });
 
+      // Strypt: ta bort frågan igen och lägg tillbaka den i fältet tills nedräkningen är klar
+      if (res.status === 429) {
+        startChatWait(await retryAfterSeconds(res));
+        setChatMessages(prev => prev.slice(0, -2));
+        setChatInput(msg);
+        return;
+      }
       if (!res.ok) {
         const err = await res.json().catch(() => ({ error: 'Nätverksfel' }));
-        setChatMessages(prev => [...prev, { role: 'ai', text: `Fel: ${err.error}` }]);
+        updateAnswer(() => ({ role: 'ai', text: `Fel: ${err.error}`, error: true }));
         return;
       }
 
-      const data: { text: string; places: AIPlace[] } = await res.json();
-      setChatMessages(prev => [...prev, { role: 'ai', text: data.text, places: data.places }]);
-
-      if (data.places && data.places.length > 0) {
-        plotAIPlaces(data.places);
-      }
-    } catch {
-      setChatMessages(prev => [...prev, { role: 'ai', text: 'Kunde inte nå servern.' }]);
+      // Platserna ritas så fort ett places-block är klart, även om texten fortfarande strömmar
+      let places: ChatPlace[] = [];
+      await readEventStream(res, (event, data) => {
+        if (event === 'delta') {
+          const { text } = data as { text: string };
+          updateAnswer(m => ({ ...m, text: m.text + text }));
+        } else if (event === 'tool_call') {
+          const call = data as ToolTrace;
+          updateAnswer(m => ({ ...m, trace: [...(m.trace ?? []), call] }));
+        } else if (event === 'tool_result') {
+          const { id, result } = data as { id: string; result: unknown };
+          updateAnswer(m => ({ ...m, trace: m.trace?.map(t => t.id === id ? { ...t, result } : t) }));
+        } else if (event === 'places') {
+          places = [...places, ...(data as { places: ChatPlace[] }).places];
+          updateAnswer(m => ({ ...m, places }));
+          ai.plot(places, chatFitPadding());
+        } else if (event === 'done') {
+          const done = data as { text: string; places: ChatPlace[] };
+          updateAnswer(m => ({ ...m, text: done.text, places: done.places }));
+        } else if (event === 'error') {
+          throw new ChatStreamError((data as { error: string }).error);
+        }
+      });
+    } catch (e) {
+      const text = e instanceof ChatStreamError ? `Fel: ${e.message}` : 'Kunde inte nå servern.';
+      updateAnswer(m => ({ ...m, text: m.text ? `${m.text}\n\n${text}` : text, error: true }));
     } finally {
       setChatLoading(false);
     }
-  }, [chatInput, chatLoading, plotAIPlaces]);
+  };
+
+  const focusChatPlace = (place: ChatPlace) => {
+    const map = mapInstance.current;
+    if (!map) return;
+    const coord = fromLonLat([place.lon, place.lat], map.getView().getProjection());
+    map.getView().animate({ center: coord, zoom: 14, duration: 800 });
+  };
+
+  // Användaren flyttar en osäker plats till ett av alternativen — svarets platser ritas om
+  const chooseChatPlace = (messageIndex: number, placeIndex: number, candidateIndex: number) => {
+    const places = chatMessages[messageIndex]?.places;
+    if (!places) return;
+    const updated = places.map((p, j) => j === placeIndex ? chooseCandidate(p, candidateIndex) : p);
+    setChatMessages(prev => prev.map((m, i) => i === messageIndex ? { ...m, places: updated } : m));
+    ai.plot(updated);
+    focusChatPlace(updated[placeIndex]);
+  };
 
   // Swipe-to-close state
   const touchStartY = useRef<number | null>(null);
@@ -361,71 +376,37 @@ function App() {
   useEffect(() => {
     if (!mapRef.current || mapInstance.current) return;
 
-    const wmtsExtent: [number, number, number, number] = [-20037508.342789, -20037508.342789, 20037508.342789, 20037508.342789];
-
-    const tileGrid = new WMTSTileGrid({
-      tileSize: 256,
-      extent: wmtsExtent,
-      resolutions: lmResolutions,
-      matrixIds: lmMatrixIds,
-      origin: [-20037508.342789, 20037508.342789],
+    // Bakgrundskarta + valfri halvgenomskinlig överlagring; källor sätts när lager väljs
+    const baseTileLayer = new TileLayer({
+      source: osmSource.current,
     });
 
-    const lmLayer = new TileLayer({
-      source: new WMTS({
-        url: `${apiBase}/api/wmts`,
-        layer: 'topowebb',
-        format: 'image/png',
-        matrixSet: '3857',
-        tileGrid,
-        version: '1.0.0',
-        style: 'default',
-        requestEncoding: 'KVP',
-      }),
+    const overlayTileLayer = new TileLayer({
       visible: false,
     });
 
-    const osmLayer = new TileLayer({
-      source: new OSM(),
-      visible: true,
+    // Mätningar ligger kvar med etiketter tills de rensas
+    const measureLayer = new VectorLayer({
+      source: measureSource.current,
+      style: (feature): Style[] => measureStyle(feature, map.getView().getProjection()),
+      declutter: true,
+      zIndex: 10,
     });
 
-    const markerLayer = new VectorLayer({
-      source: markerSource.current,
-      style: new Style({
-        image: new Icon({
-          anchor: [0.5, 1],
-          scale: 1.5,
-          src: 'data:image/svg+xml,' + encodeURIComponent(
-            '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="32" viewBox="0 0 24 32">' +
-            '<path d="M12 0C5.4 0 0 5.4 0 12c0 9 12 20 12 20s12-11 12-20C24 5.4 18.6 0 12 0z" fill="%23e74c3c"/>' +
-            '<circle cx="12" cy="11" r="4" fill="white"/>' +
-            '</svg>'
-          ),
-        }),
-      }),
+    const sketchLayer = new VectorLayer({
+      source: sketchSource.current,
+      style: (feature) => sketchStyle(feature),
+      zIndex: 9,
     });
+    sketchLayerRef.current = sketchLayer;
 
-    const sysSattLayer = new VectorLayer({
-      source: sysSattSource.current,
-      visible: false,
-      opacity: 0.75,
-      zIndex: 1,
-    });
-    sysSattLayerRef.current = sysSattLayer;
+    baseTileLayerRef.current = baseTileLayer;
+    overlayTileLayerRef.current = overlayTileLayer;
 
-    const poiLayer = new VectorLayer({
-      source: poiSource.current,
+    const overlayLayers = overlaysRef.current.map(o => {
+      tagLayer(o.layer, o.id);
+      return o.layer;
     });
-    poiLayerRef.current = poiLayer;
-
-    const aiLayer = new VectorLayer({
-      source: aiSource.current,
-    });
-    aiLayerRef.current = aiLayer;
-
-    lmLayerRef.current = lmLayer;
-    osmLayerRef.current = osmLayer;
 
     const overlay = new Overlay({
       element: popupRef.current!,
@@ -435,12 +416,10 @@ function App() {
 
     const map = new Map({
       target: mapRef.current,
-      layers: [lmLayer, osmLayer, sysSattLayer, markerLayer, poiLayer, aiLayer],
-      view: new View({
-        center: fromLonLat([18.07, 59.33]), // Stockholm
-        zoom: 5,
-        minZoom: 0,
-        maxZoom: 18,
+      layers: [baseTileLayer, overlayTileLayer, ...overlayLayers, sketchLayer, measureLayer],
+      view: createView(initialMapState.proj ?? '3857', {
+        center: fromLonLat(initialMapState.center ?? DEFAULT_CENTER, PROJECTIONS[initialMapState.proj ?? '3857'].code),
+        zoom: initialMapState.zoom ?? DEFAULT_ZOOM,
       }),
       controls: [new Zoom(), new ScaleLine()],
       overlays: [overlay],
@@ -448,105 +427,402 @@ function App() {
 
     map.on('pointermove', (e) => {
       if (!coordRef.current) return;
-      const [x, y] = e.coordinate;
-      const lon = (x / 20037508.342789) * 180;
-      const lat = (Math.atan(Math.exp((y / 20037508.342789) * Math.PI)) * 360 / Math.PI) - 90;
-      coordRef.current.textContent = `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+      coordRef.current.textContent = formatCoordinate(e.coordinate, map.getView().getProjection());
     });
 
     map.on('moveend', () => {
       const z = Math.round(map.getView().getZoom() ?? 0);
       setZoomLevel(z);
       if (zoomRef.current) zoomRef.current.textContent = `Zoom: ${z}`;
-
-      // Re-fetch POIs on pan/zoom
-      if (activeCategoryRef.current) {
-        if (poiDebounceRef.current) clearTimeout(poiDebounceRef.current);
-        poiDebounceRef.current = setTimeout(() => {
-          if (activeCategoryRef.current) fetchPois(activeCategoryRef.current);
-        }, 500);
-      }
+      setViewVersion(v => v + 1);
+      for (const o of overlaysRef.current) o.onViewChange?.();
     });
 
-    // Click on POI, AI marker, or municipality → show popup
+    // Högerklick, eller långt tryck på pekskärm, visar adressen för punkten. Släppet efter ett långt
+    // tryck blir annars ett singleclick som stänger popupen igen.
+    const viewport = map.getViewport();
+    let pressTimer: ReturnType<typeof setTimeout> | undefined;
+    let pressStart: [number, number] | null = null;
+    let longPressed = false;
+    const onContextMenu = (e: MouseEvent) => {
+      e.preventDefault();
+      if (measureModeRef.current || sketchModeRef.current || longPressed) return;
+      openAddressPopup(map.getEventCoordinate(e));
+    };
+    const cancelPress = () => {
+      clearTimeout(pressTimer);
+      pressStart = null;
+    };
+    const onPointerDown = (e: PointerEvent) => {
+      cancelPress();
+      longPressed = false;
+      if (e.pointerType !== 'touch' || !e.isPrimary) return;
+      pressStart = [e.clientX, e.clientY];
+      pressTimer = setTimeout(() => {
+        pressStart = null;
+        if (measureModeRef.current || sketchModeRef.current) return;
+        longPressed = true;
+        openAddressPopup(map.getEventCoordinate(e));
+      }, 600);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (pressStart && Math.hypot(e.clientX - pressStart[0], e.clientY - pressStart[1]) > 10) cancelPress();
+    };
+    viewport.addEventListener('contextmenu', onContextMenu);
+    viewport.addEventListener('pointerdown', onPointerDown);
+    viewport.addEventListener('pointermove', onPointerMove);
+    viewport.addEventListener('pointerup', cancelPress);
+    viewport.addEventListener('pointercancel', cancelPress);
+
+    // Klickbara överlägg — det med högst hitPriority vinner (punkter före kommunytor)
+    const clickableOverlay = (layer: BaseLayer): MapOverlay | undefined => {
+      const id = overlayIdOf(layer);
+      return overlaysRef.current.find(o => o.id === id && o.hitPriority !== undefined);
+    };
+
+    // Klick på en feature i ett överlägg → dess popup
     map.on('singleclick', (e) => {
-      // Prioritise POI/AI over municipality polygons
-      const feature = map.forEachFeatureAtPixel(e.pixel, f => f, {
-        layerFilter: l => l === poiLayer || l === aiLayer || l === sysSattLayer,
-      });
-      if (feature) {
-        const popupEl = popupRef.current;
-        if (feature.get('NAME_2') !== undefined) {
-          // Municipality polygon
-          const name = feature.get('NAME_2');
-          const sysselsattning = feature.get('sysselsattning');
-          if (popupEl) {
-            let html = `<strong>${name}</strong><br/><span class="poi-popup-type">Sysselsättningsgrad</span>`;
-            html += sysselsattning !== null && sysselsattning !== undefined
-              ? `<br/>${sysselsattning}%`
-              : `<br/>Data saknas`;
-            popupEl.querySelector('.poi-popup-content')!.innerHTML = html;
-          }
-          overlay.setPosition(e.coordinate);
-        } else {
-          // POI or AI marker
-          const name = feature.get('poiName');
-          const category = feature.get('poiCategory');
-          const tags = feature.get('poiTags') || {};
-          const geom = feature.getGeometry() as Point;
-          if (popupEl) {
-            let html = `<strong>${name}</strong><br/><span class="poi-popup-type">${category}</span>`;
-            if (tags.description) html += `<br/>${tags.description}`;
-            if (tags.cuisine) html += `<br/>${tags.cuisine}`;
-            if (tags.opening_hours) html += `<br/>${tags.opening_hours}`;
-            if (tags.operator) html += `<br/>${tags.operator}`;
-            popupEl.querySelector('.poi-popup-content')!.innerHTML = html;
-          }
-          overlay.setPosition(geom.getCoordinates());
-        }
-      } else {
-        overlay.setPosition(undefined);
+      // Klick under mätning eller skissning hör till verktyget
+      if (measureModeRef.current || sketchModeRef.current) return;
+      if (longPressed) {
+        longPressed = false;
+        return;
       }
+      const hits: { overlay: MapOverlay; feature: FeatureLike }[] = [];
+      map.forEachFeatureAtPixel(e.pixel, (feature, layer) => {
+        const overlay = clickableOverlay(layer);
+        if (overlay) hits.push({ overlay, feature });
+      }, { layerFilter: l => clickableOverlay(l) !== undefined });
+      const hit = hits.sort((a, b) => b.overlay.hitPriority! - a.overlay.hitPriority!)[0];
+      const feature = hit && (hit.overlay.click ? hit.overlay.click(hit.feature, map) : hit.feature);
+      if (hit && feature) openFeaturePopup(hit.overlay, feature, e.coordinate);
+      else closePopup();
     });
 
-    // Change cursor on hover over POI, AI marker, or municipality
+    // Pekare över klickbara features
     map.on('pointermove', (e) => {
-      const hit = map.hasFeatureAtPixel(e.pixel, {
-        layerFilter: l => l === poiLayer || l === aiLayer || l === sysSattLayer,
-      });
+      const hit = map.hasFeatureAtPixel(e.pixel, { layerFilter: l => clickableOverlay(l) !== undefined });
       map.getTargetElement().style.cursor = hit ? 'pointer' : '';
     });
 
+    // Skissen sparas i localStorage vid varje ändring. Fördröjt så att en omprojicering hinner
+    // byta vy innan geometrierna skrivs, och så att dragningar inte sparar för varje pixel.
+    const sketch = sketchSource.current;
+    sketch.addFeatures(loadSketch(map.getView().getProjection()));
+    setSketchCount(sketch.getFeatures().length);
+    let sketchSaveTimer: ReturnType<typeof setTimeout> | undefined;
+    const onSketchChange = () => {
+      setSketchCount(sketch.getFeatures().length);
+      clearTimeout(sketchSaveTimer);
+      sketchSaveTimer = setTimeout(() => saveSketch(sketch.getFeatures(), map.getView().getProjection()), 300);
+    };
+    sketch.on(['addfeature', 'removefeature', 'changefeature'], onSketchChange);
+
     mapInstance.current = map;
 
     return () => {
+      cancelPress();
+      viewport.removeEventListener('contextmenu', onContextMenu);
+      viewport.removeEventListener('pointerdown', onPointerDown);
+      viewport.removeEventListener('pointermove', onPointerMove);
+      viewport.removeEventListener('pointerup', cancelPress);
+      viewport.removeEventListener('pointercancel', cancelPress);
+      clearTimeout(sketchSaveTimer);
+      sketch.un(['addfeature', 'removefeature', 'changefeature'], onSketchChange);
+      sketch.clear(true);
       map.setTarget(undefined);
       mapInstance.current = null;
     };
-  }, [fetchPois]);
+  }, [openFeaturePopup, openAddressPopup, closePopup, initialMapState]);
+
+  // Lagerkatalog från Lantmäteriets GetCapabilities
+  useEffect(() => {
+    fetch(`${apiBase}/api/layers`)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((data: { layers: CatalogueLayer[] }) => setCatalogue(data.layers))
+      .catch(e => console.error('Layer catalogue error:', e));
+  }, []);
 
-  const switchLayer = (layer: BaseLayer) => {
-    setBaseLayer(layer);
-    if (lmLayerRef.current && osmLayerRef.current) {
-      lmLayerRef.current.setVisible(layer === 'lantmateriet');
-      osmLayerRef.current.setVisible(layer === 'osm');
+  // Koppla valda lager till kartans tile-lager — byggs om vid byte av lager eller projektion
+  useEffect(() => {
+    const base = baseTileLayerRef.current;
+    const overlay = overlayTileLayerRef.current;
+    if (!base || !overlay) return;
+
+    const sourceFor = (id: string | null) => {
+      if (id === OSM_LAYER_ID) return osmSource.current;
+      const layer = catalogue.find(l => l.id === id);
+      return layer ? createWmtsSource(layer, projectionMode, apiBase) : null;
+    };
+
+    base.setSource(sourceFor(baseLayer) ?? osmSource.current);
+    const overlaySource = sourceFor(overlayLayer);
+    overlay.setSource(overlaySource);
+    overlay.setVisible(overlaySource !== null);
+  }, [catalogue, baseLayer, overlayLayer, projectionMode]);
+
+  useEffect(() => {
+    baseTileLayerRef.current?.setOpacity(layerOpacity[baseLayer] ?? DEFAULT_BASE_OPACITY);
+    if (overlayLayer) {
+      overlayTileLayerRef.current?.setOpacity(layerOpacity[overlayLayer] ?? DEFAULT_OVERLAY_OPACITY);
     }
+  }, [layerOpacity, baseLayer, overlayLayer]);
+
+  const selectBaseLayer = (id: string) => {
+    setBaseLayer(id);
+    if (overlayLayer === id) setOverlayLayer(null);
   };
 
+  // Ritinteraktion för aktivt mätläge; Esc avbryter pågående mätning
+  useEffect(() => {
+    measureModeRef.current = measureMode;
+    const map = mapInstance.current;
+    if (!map || !measureMode) return;
+
+    closePopup();
+    const draw = new Draw({
+      source: measureSource.current,
+      type: measureMode === 'line' ? 'LineString' : 'Polygon',
+      style: (feature) => measureStyle(feature, map.getView().getProjection()),
+    });
+    draw.on('drawend', () => setMeasureCount(c => c + 1));
+    map.addInteraction(draw);
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') draw.abortDrawing();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      map.removeInteraction(draw);
+    };
+  }, [measureMode, closePopup]);
+
+  const clearMeasurements = () => {
+    measureSource.current.clear();
+    setMeasureCount(0);
+    setMeasureMode(null);
+  };
+
+  useEffect(() => {
+    selectedSketchRef.current = selectedSketch;
+  }, [selectedSketch]);
+
+  // Mät- och skissverktygen delar kartklicken — bara ett åt gången
+  const selectMeasureMode = (mode: MeasureMode | null) => {
+    setMeasureMode(mode);
+    if (mode) setSketchMode(null);
+  };
+
+  const selectSketchMode = (mode: SketchMode | null) => {
+    setSketchMode(mode);
+    if (mode) setMeasureMode(null);
+  };
+
+  const closeSketchPanel = () => {
+    setSketchOpen(false);
+    setSketchMode(null);
+    setSelectedSketch(null);
+  };
+
+  const clearSketch = () => {
+    if (!window.confirm('Ta bort alla skisser?')) return;
+    sketchSource.current.clear();
+    setSelectedSketch(null);
+  };
+
+  const exportSketch = (format: SketchExportFormat) => {
+    const map = mapInstance.current;
+    if (!map) return;
+    downloadSketch(sketchSource.current.getFeatures(), format, map.getView().getProjection());
+  };
+
+  const deleteSketchFeature = useCallback((feature: Feature) => {
+    if (sketchSource.current.hasFeature(feature)) sketchSource.current.removeFeature(feature);
+    setSelectedSketch(s => s === feature ? null : s);
+  }, []);
+
+  // Skissverktyg: rita punkt/linje/yta, eller välj, flytta och ändra befintliga (Delete tar bort vald)
+  useEffect(() => {
+    sketchModeRef.current = sketchMode;
+    const map = mapInstance.current;
+    const layer = sketchLayerRef.current;
+    if (!map || !layer || !sketchMode) return;
+
+    closePopup();
+    const source = sketchSource.current;
+
+    if (sketchMode === 'edit') {
+      const select = new Select({ layers: [layer], style: (feature) => sketchStyle(feature, true) });
+      const selected = select.getFeatures();
+      if (selectedSketchRef.current && source.hasFeature(selectedSketchRef.current)) {
+        selected.push(selectedSketchRef.current);
+      }
+      select.on('select', () => setSelectedSketch(selected.item(0) ?? null));
+      const modify = new Modify({ features: selected });
+      const translate = new Translate({ features: selected });
+      // Borttagen via panelen → släpp markeringen så att Modify/Translate inte håller kvar den
+      const onRemove = ({ feature }: { feature?: Feature }) => {
+        if (feature) selected.remove(feature);
+      };
+      source.on('removefeature', onRemove);
+      map.addInteraction(select);
+      map.addInteraction(modify);
+      map.addInteraction(translate);
+
+      const onKeyDown = (e: KeyboardEvent) => {
+        if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+        const target = e.target as HTMLElement | null;
+        if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+        const feature = selected.item(0);
+        if (feature) deleteSketchFeature(feature);
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => {
+        window.removeEventListener('keydown', onKeyDown);
+        source.un('removefeature', onRemove);
+        selected.clear();
+        map.removeInteraction(translate);
+        map.removeInteraction(modify);
+        map.removeInteraction(select);
+      };
+    }
+
+    const draw = new Draw({
+      source,
+      type: sketchMode === 'point' ? 'Point' : sketchMode === 'line' ? 'LineString' : 'Polygon',
+    });
+    draw.on('drawend', ({ feature }) => {
+      feature.setProperties({
+        name: defaultSketchName(feature.getGeometry()!, source.getFeatures().length + 1),
+        note: '',
+        // Samma färg som senast valda skiss — praktiskt när man ritar flera i följd
+        color: selectedSketchRef.current?.get('color') || DEFAULT_SKETCH_COLOR,
+      });
+      setSelectedSketch(feature);
+    });
+    map.addInteraction(draw);
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') draw.abortDrawing();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      map.removeInteraction(draw);
+    };
+  }, [sketchMode, closePopup, deleteSketchFeature]);
+
+  // Byt vy mellan Web Mercator och SWEREF 99 TM — befintliga features projiceras om
+  const switchProjection = useCallback((mode: ProjectionMode) => {
+    const map = mapInstance.current;
+    const newProj = PROJECTIONS[mode].code;
+    if (!map || map.getView().getProjection().getCode() === newProj) return;
+
+    const oldView = map.getView();
+    const oldProj = oldView.getProjection();
+    const oldCenter = oldView.getCenter()!;
+    const center = transform(oldCenter, oldProj, newProj);
+    const resolution = getPointResolution(oldProj, oldView.getResolution()!, oldCenter);
+
+    for (const source of [
+      measureSource.current, sketchSource.current,
+      ...overlaysRef.current.flatMap(o => o.sources()),
+    ]) {
+      for (const feature of source.getFeatures()) {
+        feature.getGeometry()?.transform(oldProj, newProj);
+      }
+    }
+
+    map.setView(createView(mode, { center, resolution }));
+    closePopup();
+    setProjectionMode(mode);
+  }, [closePopup]);
+
+  // Återställ kartans tillstånd från URL:en (initial laddning och bakåt/framåt)
+  const applyMapState = useCallback((state: Partial<MapState>) => {
+    const map = mapInstance.current;
+    if (!map) return;
+
+    switchProjection(state.proj ?? '3857');
+    const view = map.getView();
+    view.setCenter(fromLonLat(state.center ?? DEFAULT_CENTER, view.getProjection()));
+    view.setZoom(state.zoom ?? DEFAULT_ZOOM);
+
+    setBaseLayer(state.base ?? OSM_LAYER_ID);
+    setOverlayLayer(state.overlay ?? null);
+    for (const o of overlaysRef.current) o.restore?.(state);
+
+    closePopup();
+    pendingSelectionRef.current = state.sel ?? null;
+    restorePendingSelection();
+  }, [switchProjection, closePopup, restorePendingSelection]);
+
+  useEffect(() => {
+    const onPopState = () => applyMapState(parseMapHash(window.location.hash));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [applyMapState]);
+
+  // Överlägg från URL:en vid första laddning (vy, lager och projektion sätts redan i initialt state)
+  const initialRestoreDone = useRef(false);
+  useEffect(() => {
+    if (initialRestoreDone.current) return;
+    initialRestoreDone.current = true;
+    for (const o of overlaysRef.current) o.restore?.(initialMapState);
+    pendingSelectionRef.current = initialMapState.sel ?? null;
+    restorePendingSelection();
+  }, [initialMapState, restorePendingSelection]);
+
+  // Spegla kartans tillstånd i URL:en. Ändrade lager, överlägg och val blir historikposter; panorering
+  // och zoom ersätter bara den aktuella posten, så att Bakåt inte stegar genom varje liten förflyttning.
+  const overlayHash = JSON.stringify(overlays.map(o => o.hashState ?? null));
+  const holdHistory = overlays.some(o => o.holdHistory);
+  useEffect(() => {
+    const view = mapInstance.current?.getView();
+    const center = view?.getCenter();
+    if (!view || !center || holdHistory) return;
+
+    const overlayState: Partial<MapState> = Object.assign({}, ...overlaysRef.current.map(o => o.hashState));
+    const hash = formatMapHash({
+      poi: [],
+      stat: null,
+      marker: null,
+      ai: [],
+      ...overlayState,
+      proj: projectionMode,
+      center: toLonLat(center, view.getProjection()) as [number, number],
+      zoom: view.getZoom() ?? DEFAULT_ZOOM,
+      base: baseLayer,
+      overlay: overlayLayer,
+      sel: selection ?? pendingSelectionRef.current,
+    });
+    if (hash === window.location.hash) return;
+    // Före kartans första moveend håller initialt tillstånd fortfarande på att landa — ersätt i stället för att pusha
+    const viewOnly = withoutView(hash) === withoutView(window.location.hash);
+    if (viewVersion > 0 && window.location.hash && !viewOnly) window.history.pushState(null, '', hash);
+    else window.history.replaceState(null, '', hash);
+  }, [viewVersion, projectionMode, baseLayer, overlayLayer, overlayHash, holdHistory, selection]);
+
+  // Sökningen går via servern; en ny sökning avbryter den förra så att gamla svar inte skriver över nya
   const search = useCallback(async (q: string) => {
+    searchAbort.current?.abort();
     if (q.length < 2) {
       setResults([]);
+      setSearching(false);
       return;
     }
+    const controller = new AbortController();
+    searchAbort.current = controller;
     setSearching(true);
     try {
-      const res = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&countrycodes=se&limit=5&q=${encodeURIComponent(q)}`,
-        { headers: { 'Accept-Language': 'sv' } }
-      );
-      const data: SearchResult[] = await res.json();
-      setResults(data);
-    } catch {
+      setResults(await searchPlaces(apiBase, q, controller.signal));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (e instanceof GeocodeError) console.error('Search error:', e.message);
       setResults([]);
     }
     setSearching(false);
@@ -558,14 +834,13 @@ function App() {
     searchTimeout.current = setTimeout(() => search(value), 400);
   };
 
-  const goToResult = (result: SearchResult) => {
+  const goToResult = (result: GeocodeResult) => {
     const map = mapInstance.current;
     if (!map) return;
 
-    const coord = fromLonLat([parseFloat(result.lon), parseFloat(result.lat)]);
-
-    markerSource.current.clear();
-    markerSource.current.addFeature(new Feature(new Point(coord)));
+    const lonLat: [number, number] = [result.lon, result.lat];
+    const coord = fromLonLat(lonLat, map.getView().getProjection());
+    marker.place(lonLat);
 
     map.getView().animate({
       center: coord,
@@ -574,13 +849,8 @@ function App() {
     });
 
     setResults([]);
-    setQuery(result.display_name.split(',')[0]);
+    setQuery(shortPlaceName(result));
   };
-
-  const closePopup = () => {
-    if (popupOverlay.current) popupOverlay.current.setPosition(undefined);
-  };
-
   return (
     <div className="app">
       <div className="toolbar">
@@ -600,55 +870,103 @@ function App() {
               {searching && <div className="search-item">Söker...</div>}
               {results.map((r, i) => (
                 <div key={i} className="search-item" onClick={() => goToResult(r)}>
-                  {r.display_name}
+                  {r.name}
                 </div>
               ))}
             </div>
           )}
         </div>
+        <LayerPicker
+          catalogue={catalogue}
+          projectionMode={projectionMode}
+          baseLayer={baseLayer}
+          overlayLayer={overlayLayer}
+          opacity={layerOpacity}
+          onBaseChange={selectBaseLayer}
+          onOverlayChange={setOverlayLayer}
+          onOpacityChange={(id, value) => setLayerOpacity(prev => ({ ...prev, [id]: value }))}
+        />
         <button
           className="layer-toggle"
-          onClick={() => switchLayer(baseLayer === 'lantmateriet' ? 'osm' : 'lantmateriet')}
+          onClick={() => switchProjection(projectionMode === '3857' ? '3006' : '3857')}
         >
-          {baseLayer === 'lantmateriet' ? 'Kartvy: LM' : 'Kartvy: OSM'}
+          {`Projektion: ${PROJECTIONS[projectionMode].label}`}
         </button>
         <div className="info">
           <span ref={zoomRef}>Zoom: {zoomLevel}</span>
           <span ref={coordRef}></span>
         </div>
       </div>
-      <div className="map-container">
+      <div
+        className={`map-container ${dragActive ? 'drag-active' : ''}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'copy';
+          setDragActive(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+        }}
+        onDrop={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setDragActive(false);
+          imports.importFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
         <div ref={mapRef} className="map" />
-        {showSysselsattning && (
-          <div className="syss-legend">
-            <div className="syss-legend-title">Sysselsättningsgrad</div>
-            <div className="syss-legend-bar" />
-            <div className="syss-legend-labels">
-              <span>65%</span>
-              <span>72%</span>
-              <span>80%</span>
-            </div>
-          </div>
-        )}
-        <div className="poi-bar">
-          {POI_CATEGORIES.map(cat => (
-            <button
-              key={cat.id}
-              className={`poi-btn ${activePoiCategory === cat.id ? 'active' : ''}`}
-              style={{ '--poi-color': cat.color } as React.CSSProperties}
-              onClick={() => togglePoiCategory(cat.id)}
-            >
-              {cat.label}
+        <div className="map-tools">
+          <button
+            className={measureMode === 'line' ? 'active' : ''}
+            onClick={() => selectMeasureMode(measureMode === 'line' ? null : 'line')}
+            title="Mät sträcka (dubbelklicka för att avsluta)"
+          >
+            {'\u{1F4CF}'}
+          </button>
+          <button
+            className={measureMode === 'area' ? 'active' : ''}
+            onClick={() => selectMeasureMode(measureMode === 'area' ? null : 'area')}
+            title="Mät yta (dubbelklicka för att avsluta)"
+          >
+            {'\u2B20'}
+          </button>
+          {measureCount > 0 && (
+            <button onClick={clearMeasurements} title="Rensa mätningar">
+              {'\u2715'}
             </button>
-          ))}
+          )}
+          <button
+            className={route.open ? 'active' : ''}
+            onClick={() => route.setOpen(o => !o)}
+            title="Rutt"
+          >
+            {'\u21C6'}
+          </button>
           <button
-            className={`poi-btn ${showSysselsattning ? 'active' : ''}`}
-            style={{ '--poi-color': '#6366f1' } as React.CSSProperties}
-            onClick={toggleSysselsattning}
+            className={sketchOpen ? 'active' : ''}
+            onClick={() => (sketchOpen ? closeSketchPanel() : setSketchOpen(true))}
+            title="Skiss och anteckningar"
           >
-            Sysselsättning
+            {'\u270E'}
           </button>
-          {loadingPois && <span className="poi-loading">Laddar...</span>}
+        </div>
+        {sketchOpen && (
+          <SketchPanel
+            mode={sketchMode}
+            count={sketchCount}
+            selected={selectedSketch}
+            onModeChange={selectSketchMode}
+            onDelete={deleteSketchFeature}
+            onExport={exportSketch}
+            onClear={clearSketch}
+            onClose={closeSketchPanel}
+          />
+        )}
+        {overlays.map(o => <Fragment key={o.id}>{o.legend}{o.panel}</Fragment>)}
+        <div className="poi-bar">
+          {overlays.map(o => <Fragment key={o.id}>{o.toggle}</Fragment>)}
+          {overlays.map(o => <Fragment key={o.id}>{o.status}</Fragment>)}
         </div>
         {/* Chat panel — always visible on mobile, sidebar on desktop */}
         <div
@@ -674,10 +992,15 @@ function App() {
                 onFocus={handleSearchFocus}
                 disabled={chatLoading}
               />
-              <button onClick={handleSearchSubmit} disabled={chatLoading || !chatInput.trim()}>
+              <button onClick={handleSearchSubmit} disabled={chatLoading || chatWait > 0 || !chatInput.trim()}>
                 Skicka
               </button>
             </div>
+            {chatWait > 0 && (
+              <div className="chat-rate-limit">
+                För många frågor just nu — försök igen om {formatCountdown(chatWait)}
+              </div>
+            )}
           </div>
           <div className="chat-messages">
             {chatMessages.length === 0 && (
@@ -687,42 +1010,35 @@ function App() {
             )}
             {chatMessages.map((msg, i) => (
               <div key={i} className={`chat-msg chat-msg-${msg.role}`}>
-                <div className="chat-msg-text">{msg.text}</div>
+                {msg.trace && msg.trace.length > 0 && <ToolTraceList traces={msg.trace} />}
+                <div className={`chat-msg-text ${msg.text ? '' : 'chat-loading'}`}>
+                  {msg.text || (msg.trace?.length ? 'Hämtar data...' : 'Tänker...')}
+                </div>
                 {msg.places && msg.places.length > 0 && (
-                  <div className="chat-places">
-                    {msg.places.map((p, j) => (
-                      <button
-                        key={j}
-                        className="chat-place-btn"
-                        onClick={() => {
-                          const map = mapInstance.current;
-                          if (!map) return;
-                          const coord = fromLonLat([p.lon, p.lat]);
-                          map.getView().animate({ center: coord, zoom: 14, duration: 800 });
-                        }}
-                      >
-                        {p.name}
-                      </button>
-                    ))}
-                  </div>
+                  <ChatPlaces
+                    places={msg.places}
+                    onFocus={focusChatPlace}
+                    onChoose={(j, k) => chooseChatPlace(i, j, k)}
+                    onRoute={() => msg.places!.forEach(p => route.addWaypoint(p.name, [p.lon, p.lat]))}
+                  />
                 )}
               </div>
             ))}
-            {chatLoading && (
-              <div className="chat-msg chat-msg-ai">
-                <div className="chat-msg-text chat-loading">Tänker...</div>
-              </div>
-            )}
             <div ref={chatEndRef} />
           </div>
         </div>
       </div>
       <div ref={popupRef} className="poi-popup">
         <button className="poi-popup-close" onClick={closePopup}>&times;</button>
-        <div className="poi-popup-content"></div>
+        <div className="poi-popup-content">{popup?.body}</div>
+        {popupPlace && (
+          <button className="poi-popup-route" onClick={() => route.addWaypoint(popupPlace.name, popupPlace.lonLat)}>
+            + Rutt
+          </button>
+        )}
       </div>
     </div>
   );
 }
 
-export default App;
+export default App;
\ No newline at end of file
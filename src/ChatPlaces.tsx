@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { placeStatus } from './aiPlaces';
+import type { ChatPlace } from './chatStream';
+
+interface ChatPlacesProps {
+  places: ChatPlace[];
+  onFocus: (place: ChatPlace) => void;
+  onChoose: (placeIndex: number, candidateIndex: number) => void;
+  onRoute: () => void;
+}
+
+// Platserna under ett AI-svar. Osäkra platser markeras och kan flyttas till ett av geokodarens alternativ.
+function ChatPlaces({ places, onFocus, onChoose, onRoute }: ChatPlacesProps) {
+  const [open, setOpen] = useState<number | null>(null);
+
+  return (
+    <div className="chat-places">
+      {places.map((p, j) => (
+        <span key={j} className={`chat-place confidence-${p.confidence ?? 'high'}`}>
+          <button className="chat-place-btn" onClick={() => onFocus(p)} title={placeStatus(p) ?? undefined}>
+            {p.confidence === 'low' && '? '}{p.name}
+          </button>
+          {p.candidates && p.candidates.length > 0 && (
+            <button
+              className="chat-place-alt-toggle"
+              onClick={() => setOpen(open === j ? null : j)}
+              title="Välj en annan position"
+            >
+              {open === j ? '▴' : '▾'}
+            </button>
+          )}
+          {open === j && p.candidates && (
+            <ul className="chat-place-alts">
+              {p.candidates.map((c, k) => (
+                <li key={k}>
+                  <button
+                    onClick={() => {
+                      onChoose(j, k);
+                      setOpen(null);
+                    }}
+                    title={`${c.lat.toFixed(5)}, ${c.lon.toFixed(5)}`}
+                  >
+                    {c.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </span>
+      ))}
+      <button className="chat-place-btn" onClick={onRoute} title="Lägg till alla platser som ruttpunkter">
+        + Rutt
+      </button>
+    </div>
+  );
+}
+
+export default ChatPlaces;
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+
+interface CustomPoiFormProps {
+  apiBase: string;
+  onAdd: (label: string, filter: string) => void;
+}
+
+// Eget Overpass-taggfilter som ad hoc-kategori, t.ex. [amenity=fuel][fuel:hydrogen=yes]
+function CustomPoiForm({ apiBase, onAdd }: CustomPoiFormProps) {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState('');
+  const [filter, setFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  const submit = async () => {
+    if (!label.trim() || !filter.trim() || validating) return;
+    setValidating(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/api/poi-categories/validate?filter=${encodeURIComponent(filter)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Ogiltigt filter');
+        return;
+      }
+      onAdd(label.trim(), data.filter);
+      setLabel('');
+      setFilter('');
+      setOpen(false);
+    } catch {
+      setError('Kunde inte nå servern.');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button className="poi-btn" onClick={() => setOpen(true)} title="Lägg till eget taggfilter">
+        + Eget filter
+      </button>
+    );
+  }
+
+  return (
+    <div className="poi-custom-form">
+      <input
+        type="text"
+        placeholder="Namn"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+      />
+      <input
+        type="text"
+        placeholder="[amenity=fuel][fuel:hydrogen=yes]"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') submit();
+        }}
+      />
+      <button onClick={submit} disabled={validating || !label.trim() || !filter.trim()}>Lägg till</button>
+      <button onClick={() => { setOpen(false); setError(null); }}>&times;</button>
+      {error && <span className="poi-custom-error">{error}</span>}
+    </div>
+  );
+}
+
+export default CustomPoiForm;
@@ -0,0 +1,33 @@
+import type { ImportedLayerInfo } from './importLayers';
+
+interface ImportPanelProps {
+  layers: ImportedLayerInfo[];
+  error: string | null;
+  onToggle: (id: string) => void;
+  onZoom: (id: string) => void;
+  onRemove: (id: string) => void;
+  onDismissError: () => void;
+}
+
+function ImportPanel({ layers, error, onToggle, onZoom, onRemove, onDismissError }: ImportPanelProps) {
+  return (
+    <div className="import-panel">
+      <div className="import-panel-header">Egna lager</div>
+      {layers.map(layer => (
+        <div key={layer.id} className="import-layer">
+          <input type="checkbox" checked={layer.visible} onChange={() => onToggle(layer.id)} />
+          <span className="import-layer-color" style={{ background: layer.color }} />
+          <span className="import-layer-name" title={layer.name}>{layer.name}</span>
+          <span className="import-layer-count">{layer.count}</span>
+          <button onClick={() => onZoom(layer.id)} title="Zooma till lagret">{'⌖'}</button>
+          <button onClick={() => onRemove(layer.id)} title="Ta bort lagret">&times;</button>
+        </div>
+      ))}
+      {error && (
+        <div className="import-error" onClick={onDismissError} title="Klicka för att stänga">{error}</div>
+      )}
+    </div>
+  );
+}
+
+export default ImportPanel;
@@ -0,0 +1,31 @@
+import type { FeatureLike } from 'ol/Feature';
+import { importPopupInfo } from './importLayers';
+import { formatLength } from './measure';
+
+// Popup för en importerad feature: namn, lager, sträcka för spår och filens egna attribut
+function ImportPopup({ feature }: { feature: FeatureLike }) {
+  const info = importPopupInfo(feature);
+  return (
+    <>
+      <strong>{info.title}</strong>
+      <br />
+      <span className="poi-popup-type">{info.layer}</span>
+      {info.distance !== null && <div>Sträcka: {formatLength(info.distance)}</div>}
+      {info.elevationGain !== null && <div>Höjdökning: {Math.round(info.elevationGain)} m</div>}
+      {info.attributes.length > 0 && (
+        <table className="import-attributes">
+          <tbody>
+            {info.attributes.map(([key, value]) => (
+              <tr key={key}>
+                <th>{key}</th>
+                <td>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
+
+export default ImportPopup;
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { OSM_LAYER_ID, findMatrixSet, type CatalogueLayer } from './layers';
+import type { ProjectionMode } from './projection';
+
+interface LayerPickerProps {
+  catalogue: CatalogueLayer[];
+  projectionMode: ProjectionMode;
+  baseLayer: string;
+  overlayLayer: string | null;
+  opacity: Record<string, number>;
+  onBaseChange: (id: string) => void;
+  onOverlayChange: (id: string | null) => void;
+  onOpacityChange: (id: string, value: number) => void;
+}
+
+export const DEFAULT_BASE_OPACITY = 1;
+export const DEFAULT_OVERLAY_OPACITY = 0.6;
+
+function LayerPicker({
+  catalogue, projectionMode, baseLayer, overlayLayer, opacity,
+  onBaseChange, onOverlayChange, onOpacityChange,
+}: LayerPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const titleOf = (id: string) =>
+    id === OSM_LAYER_ID ? 'OSM' : catalogue.find(l => l.id === id)?.title ?? id;
+
+  // Lager som saknar tile matrix set för aktuell projektion kan inte väljas
+  const available = catalogue.filter(l => findMatrixSet(l, projectionMode));
+
+  const opacitySlider = (id: string, fallback: number) => (
+    <label className="layer-picker-opacity">
+      Opacitet
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={opacity[id] ?? fallback}
+        onChange={(e) => onOpacityChange(id, Number(e.target.value))}
+      />
+    </label>
+  );
+
+  return (
+    <div className="layer-picker">
+      <button className="layer-toggle" onClick={() => setOpen(o => !o)}>
+        {`Kartvy: ${titleOf(baseLayer)}${overlayLayer ? ` + ${titleOf(overlayLayer)}` : ''}`}
+      </button>
+      {open && (
+        <div className="layer-picker-panel">
+          <div className="layer-picker-title">Bakgrundskarta</div>
+          <label className="layer-picker-item">
+            <input
+              type="radio"
+              name="base-layer"
+              checked={baseLayer === OSM_LAYER_ID}
+              onChange={() => onBaseChange(OSM_LAYER_ID)}
+            />
+            OpenStreetMap
+          </label>
+          {available.map(l => (
+            <label key={l.id} className="layer-picker-item">
+              <input
+                type="radio"
+                name="base-layer"
+                checked={baseLayer === l.id}
+                onChange={() => onBaseChange(l.id)}
+              />
+              {l.title}
+            </label>
+          ))}
+          {opacitySlider(baseLayer, DEFAULT_BASE_OPACITY)}
+
+          <div className="layer-picker-title">Överlagring</div>
+          <label className="layer-picker-item">
+            <input
+              type="radio"
+              name="overlay-layer"
+              checked={overlayLayer === null}
+              onChange={() => onOverlayChange(null)}
+            />
+            Ingen
+          </label>
+          {available.filter(l => l.id !== baseLayer).map(l => (
+            <label key={l.id} className="layer-picker-item">
+              <input
+                type="radio"
+                name="overlay-layer"
+                checked={overlayLayer === l.id}
+                onChange={() => onOverlayChange(l.id)}
+              />
+              {l.title}
+            </label>
+          ))}
+          {overlayLayer && opacitySlider(overlayLayer, DEFAULT_OVERLAY_OPACITY)}
+
+          {catalogue.length === 0 && (
+            <div className="layer-picker-empty">Lantmäteriets lagerkatalog kunde inte laddas</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LayerPicker;
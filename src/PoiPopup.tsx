@@ -0,0 +1,73 @@
+import { WEEKDAY_LABELS, formatMinutes, formatSpans, openSpanAt, type WeekSchedule } from './openingHours';
+
+interface PoiPopupProps {
+  name: string;
+  category: string;
+  tags: Record<string, string>;
+  hours: WeekSchedule | null; // tolkad opening_hours, null om taggen saknas eller inte gick att tolka
+  now: Date;
+}
+
+// Taggarna kommer från OSM — länkar bara till http(s), telefon och e-post
+function websiteHref(value: string): string | null {
+  const url = /^[a-z][a-z0-9+.-]*:/i.test(value) ? value : `https://${value}`;
+  return /^https?:\/\//i.test(url) ? url : null;
+}
+
+function OpeningHours({ hours, raw, now }: { hours: WeekSchedule | null; raw: string; now: Date }) {
+  if (!hours) return <div className="poi-popup-hours-raw">{raw}</div>;
+  const today = (now.getDay() + 6) % 7;
+  const span = openSpanAt(hours, now);
+  return (
+    <>
+      <div className={span ? 'poi-popup-open' : 'poi-popup-closed'}>
+        {!span ? 'Stängt nu'
+          : span.from === 0 && span.to === 1440 ? 'Öppet nu · dygnet runt'
+          : `Öppet nu · stänger ${formatMinutes(span.to)}`}
+      </div>
+      <table className="opening-hours">
+        <tbody>
+          {hours.map((spans, day) => (
+            <tr key={day} className={day === today ? 'opening-hours-today' : undefined}>
+              <th>{WEEKDAY_LABELS[day]}</th>
+              <td>{formatSpans(spans)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+function PoiPopup({ name, category, tags, hours, now }: PoiPopupProps) {
+  const website = tags.website ?? tags['contact:website'];
+  const websiteUrl = website ? websiteHref(website) : null;
+  const phone = tags.phone ?? tags['contact:phone'];
+  const email = tags.email ?? tags['contact:email'];
+
+  return (
+    <>
+      <strong>{name}</strong>
+      <br />
+      <span className="poi-popup-type">{category}</span>
+      {tags.description && <div>{tags.description}</div>}
+      {tags.cuisine && <div>{tags.cuisine.replace(/_/g, ' ').split(';').join(', ')}</div>}
+      {tags.opening_hours && <OpeningHours hours={hours} raw={tags.opening_hours} now={now} />}
+      {tags.operator && <div className="poi-popup-type">{tags.operator}</div>}
+      {(websiteUrl || phone || email) && (
+        <div className="poi-popup-links">
+          {websiteUrl && (
+            <a href={websiteUrl} target="_blank" rel="noopener noreferrer">
+              {websiteUrl.replace(/^https?:\/\/(www\.)?/i, '').replace(/\/$/, '')}
+            </a>
+          )}
+          {/* Flera nummer/adresser separeras med semikolon i OSM — det första räcker */}
+          {phone && <a href={`tel:${phone.split(';')[0].replace(/[^\d+]/g, '')}`}>{phone.split(';')[0].trim()}</a>}
+          {email && <a href={`mailto:${email.split(';')[0].trim()}`}>{email.split(';')[0].trim()}</a>}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default PoiPopup;
@@ -0,0 +1,77 @@
+import { formatLength } from './measure';
+import { ROUTE_MODES, formatDuration, type Route, type RouteMode, type RouteStep, type Waypoint } from './routing';
+
+interface RoutePanelProps {
+  waypoints: Waypoint[];
+  mode: RouteMode;
+  route: Route | null;
+  loading: boolean;
+  error: string | null;
+  canAddMarker: boolean;
+  onModeChange: (mode: RouteMode) => void;
+  onMove: (index: number, delta: -1 | 1) => void;
+  onRemove: (id: number) => void;
+  onAddMarker: () => void;
+  onStepClick: (step: RouteStep) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+function RoutePanel({
+  waypoints, mode, route, loading, error, canAddMarker,
+  onModeChange, onMove, onRemove, onAddMarker, onStepClick, onClear, onClose,
+}: RoutePanelProps) {
+  return (
+    <div className="route-panel">
+      <div className="route-panel-header">
+        <span>Rutt</span>
+        <button onClick={onClose}>&times;</button>
+      </div>
+      <div className="route-modes">
+        {ROUTE_MODES.map(m => (
+          <button key={m.id} className={mode === m.id ? 'active' : ''} onClick={() => onModeChange(m.id)}>
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <ol className="route-waypoints">
+        {waypoints.map((w, i) => (
+          <li key={w.id}>
+            <span className="route-waypoint-name" title={w.name}>{w.name}</span>
+            <button onClick={() => onMove(i, -1)} disabled={i === 0} title="Flytta upp">{'▴'}</button>
+            <button onClick={() => onMove(i, 1)} disabled={i === waypoints.length - 1} title="Flytta ner">{'▾'}</button>
+            <button onClick={() => onRemove(w.id)} title="Ta bort">&times;</button>
+          </li>
+        ))}
+      </ol>
+      {waypoints.length < 2 && (
+        <div className="route-hint">
+          Lägg till punkter med &quot;+ Rutt&quot; i popupen för POI:er och AI-platser, eller från sökningen.
+        </div>
+      )}
+      <div className="route-actions">
+        {canAddMarker && <button onClick={onAddMarker}>+ Sökt plats</button>}
+        {waypoints.length > 0 && <button onClick={onClear}>Rensa</button>}
+      </div>
+      {loading && <div className="route-hint">Beräknar rutt…</div>}
+      {error && <div className="route-error">{error}</div>}
+      {route && !loading && (
+        <>
+          <div className="route-summary">
+            <strong>{formatLength(route.distance)}</strong> · {formatDuration(route.duration)}
+          </div>
+          <ol className="route-steps">
+            {route.legs.flatMap(leg => leg.steps).map((step, i) => (
+              <li key={i} onClick={() => onStepClick(step)}>
+                <span>{step.instruction}</span>
+                {step.distance > 0 && <span className="route-step-distance">{formatLength(step.distance)}</span>}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RoutePanel;
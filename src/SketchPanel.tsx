@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import type Feature from 'ol/Feature';
+import { getUid } from 'ol/util';
+import { SKETCH_COLORS, DEFAULT_SKETCH_COLOR, type SketchExportFormat, type SketchMode } from './sketch';
+
+interface SketchPanelProps {
+  mode: SketchMode | null;
+  count: number;
+  selected: Feature | null;
+  onModeChange: (mode: SketchMode | null) => void;
+  onDelete: (feature: Feature) => void;
+  onExport: (format: SketchExportFormat) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODES: { id: SketchMode; label: string; title: string }[] = [
+  { id: 'point', label: 'Punkt', title: 'Klicka för att placera en punkt' },
+  { id: 'line', label: 'Linje', title: 'Klicka för brytpunkter, dubbelklicka för att avsluta' },
+  { id: 'polygon', label: 'Yta', title: 'Klicka för hörn, dubbelklicka för att avsluta' },
+  { id: 'edit', label: 'Redigera', title: 'Välj, flytta och ändra former — Delete tar bort' },
+];
+
+// Namn, anteckning och färg för vald skiss. Ändringar skrivs direkt till featuren (sparas av App).
+function FeatureEditor({ feature, onDelete }: { feature: Feature; onDelete: (feature: Feature) => void }) {
+  const [name, setName] = useState<string>(feature.get('name') || '');
+  const [note, setNote] = useState<string>(feature.get('note') || '');
+  const [color, setColor] = useState<string>(feature.get('color') || DEFAULT_SKETCH_COLOR);
+
+  return (
+    <div className="sketch-editor">
+      <input
+        type="text"
+        placeholder="Namn"
+        value={name}
+        onChange={(e) => {
+          setName(e.target.value);
+          feature.set('name', e.target.value);
+        }}
+      />
+      <textarea
+        placeholder="Anteckning"
+        rows={3}
+        value={note}
+        onChange={(e) => {
+          setNote(e.target.value);
+          feature.set('note', e.target.value);
+        }}
+      />
+      <div className="sketch-colors">
+        {SKETCH_COLORS.map(c => (
+          <button
+            key={c}
+            className={c === color ? 'active' : ''}
+            style={{ background: c }}
+            title={c}
+            onClick={() => {
+              setColor(c);
+              feature.set('color', c);
+            }}
+          />
+        ))}
+      </div>
+      <button className="sketch-delete" onClick={() => onDelete(feature)}>Ta bort</button>
+    </div>
+  );
+}
+
+function SketchPanel({ mode, count, selected, onModeChange, onDelete, onExport, onClear, onClose }: SketchPanelProps) {
+  return (
+    <div className="sketch-panel">
+      <div className="sketch-panel-header">
+        <span>Skiss</span>
+        <button onClick={onClose}>&times;</button>
+      </div>
+      <div className="sketch-modes">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            className={mode === m.id ? 'active' : ''}
+            title={m.title}
+            onClick={() => onModeChange(mode === m.id ? null : m.id)}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {selected
+        ? <FeatureEditor key={getUid(selected)} feature={selected} onDelete={onDelete} />
+        : count > 0 && <div className="sketch-hint">Välj Redigera och klicka på ett objekt för att ändra det.</div>}
+      <div className="sketch-export">
+        <span>{count} objekt</span>
+        <button onClick={() => onExport('geojson')} disabled={count === 0}>GeoJSON</button>
+        <button onClick={() => onExport('kml')} disabled={count === 0}>KML</button>
+        <button onClick={() => onExport('gpx')} disabled={count === 0}>GPX</button>
+        <button onClick={onClear} disabled={count === 0}>Rensa</button>
+      </div>
+    </div>
+  );
+}
+
+export default SketchPanel;
@@ -0,0 +1,46 @@
+import type { StatSeries } from './scbStats';
+
+interface SparklineProps {
+  series: StatSeries;
+  index: number; // markerat år
+  width?: number;
+  height?: number;
+}
+
+// Liten SVG-linje över hela serien med markerat år, för kommunpopupen
+function Sparkline({ series, index, width = 140, height = 36 }: SparklineProps) {
+  const values = series.filter((v): v is number => v !== null);
+  if (values.length < 2) return null;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = 3;
+  const x = (i: number) => pad + (i / (series.length - 1)) * (width - 2 * pad);
+  const y = (v: number) => max > min ? height - pad - ((v - min) / (max - min)) * (height - 2 * pad) : height / 2;
+
+  // Luckor (saknade år) bryter linjen
+  const segments: string[] = [];
+  let current: string[] = [];
+  series.forEach((v, i) => {
+    if (v === null) {
+      if (current.length > 1) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(i).toFixed(1)},${y(v).toFixed(1)}`);
+    }
+  });
+  if (current.length > 1) segments.push(current.join(' '));
+
+  const selected = series[index];
+  return (
+    <svg className="stat-sparkline" width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {segments.map((points, i) => (
+        <polyline key={i} points={points} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+      ))}
+      {selected !== null && selected !== undefined && (
+        <circle cx={x(index).toFixed(1)} cy={y(selected).toFixed(1)} r={2.5} fill="#f8fafc" />
+      )}
+    </svg>
+  );
+}
+
+export default Sparkline;
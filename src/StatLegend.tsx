@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import {
+  CLASS_METHODS, ClassifyError, MAX_CLASSES, MIN_CLASSES, PALETTES, paletteColors, parseManualBreaks,
+  type ClassMethod, type ClassSettings,
+} from './classify';
+import { formatStatValue } from './scbStats';
+
+// En rad i legenden. index -1 = under första brytpunkten, k = över sista, null = data saknas.
+export interface LegendClass {
+  index: number | null;
+  from: number | null;
+  to: number | null;
+  color: string;
+  count: number;
+}
+
+interface StatLegendProps {
+  heading: string;
+  unit: string | null;
+  classes: LegendClass[];
+  settings: ClassSettings;
+  onSettingsChange: (settings: ClassSettings) => void;
+  onHover: (index: number | null | undefined) => void; // undefined = ingen markering
+  years: string[];
+  year: string | null;
+  playing: boolean;
+  onYearChange: (year: string) => void;
+  onTogglePlay: () => void;
+}
+
+function classLabel(c: LegendClass, unit: string | null): string {
+  if (c.index === null) return 'Data saknas';
+  if (c.from === null) return `< ${formatStatValue(c.to!, unit)}`;
+  if (c.to === null) return `> ${formatStatValue(c.from, unit)}`;
+  if (c.from === c.to) return formatStatValue(c.from, unit); // alla värden lika
+  return `${formatStatValue(c.from, null)} – ${formatStatValue(c.to, unit)}`;
+}
+
+function StatLegend({
+  heading, unit, classes, settings, onSettingsChange, onHover,
+  years, year, playing, onYearChange, onTogglePlay,
+}: StatLegendProps) {
+  const [editing, setEditing] = useState(false);
+  const [manualText, setManualText] = useState(settings.manual.join('; '));
+  const [manualError, setManualError] = useState<string | null>(null);
+  // Egna brytpunkter valda men ännu inte angivna — behåll nuvarande klassning tills dess
+  const [pendingManual, setPendingManual] = useState(false);
+  const method = pendingManual ? 'manual' : settings.method;
+
+  const applyManual = () => {
+    try {
+      const manual = parseManualBreaks(manualText);
+      setManualError(null);
+      setPendingManual(false);
+      onSettingsChange({ ...settings, method: 'manual', manual });
+    } catch (e) {
+      if (!(e instanceof ClassifyError)) throw e;
+      setManualError(e.message);
+    }
+  };
+
+  const selectMethod = (next: ClassMethod) => {
+    setManualError(null);
+    if (next === 'manual' && settings.manual.length === 0) {
+      // Förifyll med nuvarande brytpunkter så att man kan justera i stället för att börja om
+      const current = classes.filter(c => c.index !== null && c.from !== null && c.to !== null);
+      if (current.length > 0) {
+        setManualText([current[0].from!, ...current.map(c => c.to!)].map(v => +v.toFixed(2)).join('; '));
+      }
+      setPendingManual(true);
+      return;
+    }
+    setPendingManual(false);
+    onSettingsChange({ ...settings, method: next });
+  };
+
+  return (
+    <div className="stat-legend">
+      <div className="stat-legend-title">
+        {heading}
+        <button className="stat-legend-edit" onClick={() => setEditing(e => !e)} title="Klassindelning">
+          {editing ? '\u25B4' : '\u25BE'}
+        </button>
+      </div>
+      {editing && (
+        <div className="stat-legend-settings">
+          <select
+            value={method}
+            onChange={(e) => selectMethod(e.target.value as ClassMethod)}
+          >
+            {CLASS_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          {method !== 'manual' && (
+            <label>
+              Klasser
+              <input
+                type="number"
+                min={MIN_CLASSES}
+                max={MAX_CLASSES}
+                value={settings.classes}
+                onChange={(e) => onSettingsChange({ ...settings, classes: Number(e.target.value) })}
+              />
+            </label>
+          )}
+          <select value={settings.palette} onChange={(e) => onSettingsChange({ ...settings, palette: e.target.value })}>
+            {Object.entries(PALETTES).map(([id, p]) => <option key={id} value={id}>{p.label}</option>)}
+          </select>
+          <div
+            className="stat-legend-swatch"
+            style={{ background: `linear-gradient(to right, ${paletteColors(settings.palette, 5).join(', ')})` }}
+          />
+          {method === 'manual' && (
+            <input
+              type="text"
+              placeholder="60; 70; 75; 80"
+              value={manualText}
+              onChange={(e) => setManualText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyManual();
+              }}
+              onBlur={applyManual}
+            />
+          )}
+          {manualError && <div className="stat-legend-error">{manualError}</div>}
+        </div>
+      )}
+      <div className="stat-legend-classes" onMouseLeave={() => onHover(undefined)}>
+        {classes.map(c => (
+          <div
+            key={c.index ?? 'missing'}
+            className={`stat-legend-class ${c.count === 0 ? 'empty' : ''}`}
+            onMouseEnter={() => onHover(c.index)}
+          >
+            <span className="stat-legend-color" style={{ background: c.color }} />
+            <span className="stat-legend-range">{classLabel(c, unit)}</span>
+            <span className="stat-legend-count">{c.count}</span>
+          </div>
+        ))}
+      </div>
+      {years.length > 1 && year && (
+        <div className="stat-legend-time">
+          <button onClick={onTogglePlay} title={playing ? 'Pausa' : 'Spela upp tidsserien'}>
+            {playing ? '\u23F8' : '\u25B6'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={years.length - 1}
+            value={years.indexOf(year)}
+            onChange={(e) => onYearChange(years[Number(e.target.value)])}
+          />
+          <span>{year}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatLegend;
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { StatMeta, StatQuery, StatTable } from './scbStats';
+
+interface StatPanelProps {
+  apiBase: string;
+  active: StatQuery | null;
+  loading: boolean;
+  error: string | null;
+  onApply: (query: StatQuery) => void;
+  onHide: () => void;
+  onClose: () => void;
+}
+
+const CUSTOM_TABLE = '__custom';
+
+// Val av SCB-tabell och ett värde per variabel (mått, år, kön, ålder …) för kommunkartan
+function StatPanel({ apiBase, active, loading, error, onApply, onHide, onClose }: StatPanelProps) {
+  const [tables, setTables] = useState<StatTable[]>([]);
+  const [table, setTable] = useState(active?.table ?? '');
+  const [customPath, setCustomPath] = useState('');
+  const [meta, setMeta] = useState<StatMeta | null>(null);
+  const [metaError, setMetaError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Record<string, string>>(active?.selection ?? {});
+  // Aktivt urval läses när tabeller och metadata kommer, utan att byte av urval laddar om dem
+  const activeRef = useRef(active);
+  useEffect(() => {
+    activeRef.current = active;
+  });
+
+  useEffect(() => {
+    fetch(`${apiBase}/api/kommuner-stat/tables`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then((data: StatTable[]) => {
+        setTables(data);
+        setTable(t => t || data[0]?.path || '');
+        // Aktiv tabell som inte är förvald visas som egen sökväg
+        const active = activeRef.current;
+        if (active && !data.some(d => d.path === active.table)) setCustomPath(active.table);
+      })
+      .catch(e => console.error('SCB tables error:', e));
+  }, [apiBase]);
+
+  const isCustom = table === CUSTOM_TABLE || (tables.length > 0 && !tables.some(t => t.path === table));
+  const tablePath = isCustom ? customPath.trim() : table;
+
+  // Metadata för en tabell; anroparen har redan tömt den gamla (se selectTable och loadCustom)
+  const loadMeta = useCallback((path: string) => {
+    if (!path) return;
+    fetch(`${apiBase}/api/kommuner-stat/meta?table=${encodeURIComponent(path)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) {
+          setMetaError(data.error || 'Kunde inte läsa tabellen');
+          return;
+        }
+        setMeta(data);
+        // Behåll aktiva val för samma tabell, annars tabellens default
+        const active = activeRef.current;
+        setSelection(active?.table === path ? { ...data.selection, ...active.selection } : data.selection);
+      })
+      .catch(() => setMetaError('Kunde inte nå servern.'));
+  }, [apiBase]);
+
+  const selectTable = (path: string) => {
+    setMeta(null);
+    setMetaError(null);
+    setTable(path);
+  };
+
+  const loadCustom = () => {
+    setMeta(null);
+    setMetaError(null);
+    loadMeta(tablePath);
+  };
+
+  // Förvalda tabeller laddas direkt; egen sökväg först på Enter/knapp
+  useEffect(() => {
+    if (!isCustom && table) loadMeta(table);
+  }, [table, isCustom, loadMeta]);
+
+  const setValue = (code: string, value: string) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      if (value) next[code] = value;
+      else delete next[code];
+      return next;
+    });
+  };
+
+  return (
+    <div className="stat-panel">
+      <div className="stat-panel-header">
+        <span>Kommunstatistik (SCB)</span>
+        <button onClick={onClose}>&times;</button>
+      </div>
+      <label className="stat-panel-field">
+        Tabell
+        <select value={isCustom ? CUSTOM_TABLE : table} onChange={(e) => selectTable(e.target.value)}>
+          {tables.map(t => <option key={t.id} value={t.path}>{t.label}</option>)}
+          <option value={CUSTOM_TABLE}>Annan tabell…</option>
+        </select>
+      </label>
+      {isCustom && (
+        <div className="stat-panel-custom">
+          <input
+            type="text"
+            placeholder="BE/BE0101/BE0101A/BefolkningNy"
+            value={customPath}
+            onChange={(e) => setCustomPath(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') loadCustom();
+            }}
+          />
+          <button onClick={loadCustom} disabled={!tablePath}>Läs in</button>
+        </div>
+      )}
+      {meta && <div className="stat-panel-title">{meta.title}</div>}
+      {meta?.variables.map(v => (
+        <label key={v.code} className="stat-panel-field">
+          {v.text}
+          <select value={selection[v.code] ?? ''} onChange={(e) => setValue(v.code, e.target.value)}>
+            {v.elimination && <option value="">Totalt</option>}
+            {(v.time ? [...v.values].reverse() : v.values).map(val => (
+              <option key={val.code} value={val.code}>{val.text}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+      {(metaError || error) && <div className="stat-panel-error">{metaError || error}</div>}
+      <div className="stat-panel-actions">
+        <button
+          className="stat-panel-apply"
+          onClick={() => meta && onApply({ table: meta.table, selection })}
+          disabled={!meta || loading}
+        >
+          {loading ? 'Laddar…' : 'Visa på kartan'}
+        </button>
+        {active && <button onClick={onHide}>Dölj</button>}
+      </div>
+    </div>
+  );
+}
+
+export default StatPanel;
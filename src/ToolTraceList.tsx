@@ -0,0 +1,51 @@
+import type { ToolTrace } from './chatStream';
+
+const TOOL_LABELS: Record<string, string> = {
+  geocode: 'Geokodning',
+  search_pois: 'POI-sökning',
+  municipality_stats: 'Kommunstatistik',
+};
+
+const MAX_RESULT_CHARS = 4000;
+
+function formatJson(value: unknown): string {
+  const text = JSON.stringify(value, null, 2) ?? '';
+  return text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}\n…` : text;
+}
+
+function formatArguments(args: string): string {
+  try {
+    return formatJson(JSON.parse(args));
+  } catch {
+    return args;
+  }
+}
+
+// Verktygsanropen bakom ett svar, hopfällda som standard
+function ToolTraceList({ traces }: { traces: ToolTrace[] }) {
+  return (
+    <div className="chat-traces">
+      {traces.map(t => {
+        const failed = typeof t.result === 'object' && t.result !== null && 'error' in t.result;
+        return (
+          <details key={t.id} className={`chat-trace ${failed ? 'failed' : ''}`}>
+            <summary>
+              {'\u{1F527}'} {TOOL_LABELS[t.name] ?? t.name}
+              {t.result === undefined && <span className="chat-trace-pending"> …</span>}
+            </summary>
+            <div className="chat-trace-label">Argument</div>
+            <pre>{formatArguments(t.arguments)}</pre>
+            {t.result !== undefined && (
+              <>
+                <div className="chat-trace-label">Resultat</div>
+                <pre>{formatJson(t.result)}</pre>
+              </>
+            )}
+          </details>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ToolTraceList;
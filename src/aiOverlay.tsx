@@ -0,0 +1,80 @@
+import { useCallback, useState } from 'react';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import { fromLonLat, toLonLat } from 'ol/proj';
+import type { ChatPlace } from './chatStream';
+import { aiPlaceStyle, placeStatus } from './aiPlaces';
+import type { MapOverlay, OverlayContext } from './overlays';
+
+export interface AiOverlay extends MapOverlay {
+  places: ChatPlace[];
+  // Rita chattens platser; med padding anpassas vyn så att alla syns
+  plot: (places: ChatPlace[], fitPadding?: number[]) => void;
+}
+
+// AI-svarets platser som nålar, stil efter hur säkert de förankrats
+export function useAiOverlay({ mapRef, restorePendingSelection }: OverlayContext): AiOverlay {
+  const [source] = useState(() => new VectorSource());
+  const [layer] = useState(() => new VectorLayer({ source }));
+  const [places, setPlaces] = useState<ChatPlace[]>([]);
+
+  const plot = useCallback((next: ChatPlace[], fitPadding?: number[]) => {
+    source.clear();
+    setPlaces(next);
+    if (next.length === 0) return;
+
+    const projection = mapRef.current?.getView().getProjection();
+    source.addFeatures(next.map((place, i) => {
+      const f = new Feature({
+        geometry: new Point(fromLonLat([place.lon, place.lat], projection)),
+        aiIndex: i,
+        name: place.name,
+        description: place.description,
+        aiStatus: placeStatus(place),
+      });
+      f.setStyle(aiPlaceStyle(place.confidence));
+      return f;
+    }));
+    restorePendingSelection();
+
+    const map = mapRef.current;
+    const extent = source.getExtent();
+    if (fitPadding && map && extent) {
+      map.getView().fit(extent, { padding: fitPadding, maxZoom: 14, duration: 800 });
+    }
+  }, [source, mapRef, restorePendingSelection]);
+
+  return {
+    id: 'ai',
+    layer,
+    sources: () => [source],
+    hitPriority: 40,
+    selectionId: f => (f.get('aiIndex') !== undefined ? `ai:${f.get('aiIndex')}` : null),
+    describe: f => ({ type: 'AI-svar', name: f.get('name') }),
+    popup: (feature) => {
+      const geom = feature.getGeometry() as Point;
+      const projection = mapRef.current?.getView().getProjection();
+      return {
+        body: (
+          <>
+            <strong>{feature.get('name')}</strong>
+            <br />
+            <span className="poi-popup-type">AI-svar</span>
+            {feature.get('aiStatus') && <div className="poi-popup-type">{feature.get('aiStatus')}</div>}
+            {feature.get('description') && <div>{feature.get('description')}</div>}
+          </>
+        ),
+        position: geom.getCoordinates(),
+        place: { name: feature.get('name'), lonLat: toLonLat(geom.getCoordinates(), projection) as [number, number] },
+      };
+    },
+    contextLayers: [],
+    hashState: { ai: places },
+    // Delade länkar har bara namn och position — beskrivningen följer inte med
+    restore: state => plot((state.ai ?? []).map(p => ({ ...p, description: '' }))),
+    places,
+    plot,
+  };
+}
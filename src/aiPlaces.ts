@@ -0,0 +1,63 @@
+import { Icon, Style } from 'ol/style';
+import type { ChatPlace, PlaceConfidence, PlaceSource } from './chatStream';
+
+export const CONFIDENCE_LABELS: Record<PlaceConfidence, string> = {
+  high: 'Säker position',
+  medium: 'Osäker position',
+  low: 'Ej bekräftad position',
+};
+
+export const SOURCE_LABELS: Record<PlaceSource, string> = {
+  geocoder: 'bekräftad av geokodaren',
+  ai: 'AI:ns koordinater',
+  unverified: 'kunde inte kontrolleras',
+};
+
+// Hel nål för säkra platser, ljusare för osäkra och ihålig med frågetecken för obekräftade
+function pinSvg(confidence: PlaceConfidence): string {
+  const path = 'M12 1C5.9 1 1 5.9 1 12c0 8.5 11 19 11 19s11-10.5 11-19C23 5.9 18.1 1 12 1z';
+  const body = confidence === 'low'
+    ? `<path d="${path}" fill="white" stroke="#9333ea" stroke-width="2" stroke-dasharray="3 2"/>`
+      + '<text x="12" y="16" font-size="12" font-family="sans-serif" font-weight="bold" text-anchor="middle" fill="#9333ea">?</text>'
+    : `<path d="${path}" fill="${confidence === 'high' ? '#9333ea' : '#c084fc'}" stroke="#6b21a8" stroke-width="1"/>`
+      + '<circle cx="12" cy="11" r="4" fill="white"/>';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="32" viewBox="0 0 24 32">${body}</svg>`;
+}
+
+const pinStyles: Partial<Record<PlaceConfidence, Style>> = {};
+
+// Platser utan förankring (delade länkar) ritas som säkra — de har redan valts en gång
+export function aiPlaceStyle(confidence: PlaceConfidence = 'high'): Style {
+  return pinStyles[confidence] ??= new Style({
+    image: new Icon({
+      anchor: [0.5, 1],
+      scale: 1.5,
+      src: 'data:image/svg+xml,' + encodeURIComponent(pinSvg(confidence)),
+    }),
+  });
+}
+
+export function placeStatus(place: ChatPlace): string | null {
+  if (!place.confidence) return null;
+  return `${CONFIDENCE_LABELS[place.confidence]}${place.source ? ` (${SOURCE_LABELS[place.source]})` : ''}`;
+}
+
+// Användaren valde ett alternativ: det blir platsens position och den tidigare positionen blir ett alternativ
+export function chooseCandidate(place: ChatPlace, index: number): ChatPlace {
+  const chosen = place.candidates?.[index];
+  if (!chosen) return place;
+  const previous = {
+    name: place.source === 'geocoder' ? 'Geokodarens position' : 'AI:ns position',
+    lat: place.lat,
+    lon: place.lon,
+    source: place.source ?? 'ai',
+  };
+  return {
+    ...place,
+    lat: chosen.lat,
+    lon: chosen.lon,
+    source: chosen.source,
+    confidence: 'high',
+    candidates: [previous, ...place.candidates!.filter((_, i) => i !== index)],
+  };
+}
@@ -0,0 +1,75 @@
+// Klientsidan av /api/chat: konversationshistorik, kartkontext och läsning av SSE-svaret
+
+// Var koordinaterna kommer ifrån: geokodaren bekräftade dem, AI:ns egna behölls, eller okontrollerade
+export type PlaceSource = 'ai' | 'geocoder' | 'unverified';
+export type PlaceConfidence = 'high' | 'medium' | 'low';
+
+export interface PlaceCandidate {
+  name: string;
+  lat: number;
+  lon: number;
+  source: PlaceSource;
+}
+
+// Förankringen saknas för platser från en delad länk
+export interface ChatPlace {
+  name: string;
+  lat: number;
+  lon: number;
+  description: string;
+  source?: PlaceSource;
+  confidence?: PlaceConfidence;
+  candidates?: PlaceCandidate[];
+}
+
+// Ett verktygsanrop under svaret: argumenten som modellen skickade och resultatet från servern
+export interface ToolTrace {
+  id: string;
+  name: string;
+  arguments: string;
+  result?: unknown;
+}
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  places?: ChatPlace[];
+}
+
+// Det kartan visar när frågan ställs — servern lägger det som ett systemmeddelande till modellen
+export interface MapContext {
+  bbox: [number, number, number, number]; // west, south, east, north (WGS84)
+  zoom: number;
+  layers: string[];
+  selected?: { type: string; name: string };
+}
+
+export class ChatStreamError extends Error {}
+
+// Läser text/event-stream från fetch och anropar onEvent per händelse (event + JSON-data)
+export async function readEventStream(res: Response, onEvent: (event: string, data: unknown) => void) {
+  if (!res.body) throw new ChatStreamError('Tomt svar från servern');
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let pending = '';
+  let event = 'message';
+  let data = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    pending += value;
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    for (const raw of lines) {
+      const line = raw.replace(/\r$/, '');
+      if (line === '') {
+        if (data) onEvent(event, JSON.parse(data));
+        event = 'message';
+        data = '';
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data += line.slice(5).trim();
+      }
+    }
+  }
+}
@@ -0,0 +1,173 @@
+// Klassindelning för koropletkartor: brytpunkter [min, b1, …, max] ger breaks.length - 1 klasser.
+// Sista klassen är sluten uppåt så att maxvärdet hamnar i den.
+
+export type ClassMethod = 'quantile' | 'equal' | 'jenks' | 'manual';
+
+export interface ClassSettings {
+  method: ClassMethod;
+  classes: number;
+  palette: string;
+  manual: number[]; // brytpunkter inklusive yttergränser, bara för 'manual'
+}
+
+export const CLASS_METHODS: { id: ClassMethod; label: string }[] = [
+  { id: 'quantile', label: 'Kvantiler' },
+  { id: 'equal', label: 'Lika intervall' },
+  { id: 'jenks', label: 'Naturliga brytpunkter (Jenks)' },
+  { id: 'manual', label: 'Egna brytpunkter' },
+];
+
+export const MIN_CLASSES = 3;
+export const MAX_CLASSES = 7;
+const JENKS_MAX_SAMPLE = 1000; // Fisher-Jenks är O(k·n²) — sampla jämnt över sorterade värden
+
+// Färgblindvänliga skalor (viridis/cividis och ColorBrewer-scheman markerade som colorblind safe)
+export const PALETTES: Record<string, { label: string; stops: string[] }> = {
+  viridis: { label: 'Viridis', stops: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+  cividis: { label: 'Cividis', stops: ['#00204d', '#414d6b', '#7c7b78', '#bcaf6f', '#ffea46'] },
+  ylgnbu: { label: 'Gul–blå', stops: ['#ffffcc', '#a1dab4', '#41b6c4', '#2c7fb8', '#253494'] },
+  purd: { label: 'Lila–röd', stops: ['#f1eef6', '#d7b5d8', '#df65b0', '#dd1c77', '#980043'] },
+  rdbu: { label: 'Röd–blå (divergerande)', stops: ['#ca0020', '#f4a582', '#f7f7f7', '#92c5de', '#0571b0'] },
+  puor: { label: 'Orange–lila (divergerande)', stops: ['#e66101', '#fdb863', '#f7f7f7', '#b2abd2', '#5e3c99'] },
+};
+
+export const DEFAULT_CLASS_SETTINGS: ClassSettings = {
+  method: 'quantile',
+  classes: 5,
+  palette: 'viridis',
+  manual: [],
+};
+
+export class ClassifyError extends Error {}
+
+function quantileBreaks(sorted: number[], k: number): number[] {
+  const breaks = [sorted[0]];
+  for (let i = 1; i < k; i++) {
+    const pos = (i / k) * (sorted.length - 1);
+    const lo = Math.floor(pos);
+    breaks.push(sorted[lo] + (sorted[Math.min(lo + 1, sorted.length - 1)] - sorted[lo]) * (pos - lo));
+  }
+  breaks.push(sorted[sorted.length - 1]);
+  return breaks;
+}
+
+function equalBreaks(sorted: number[], k: number): number[] {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / k;
+  return Array.from({ length: k + 1 }, (_, i) => min + i * step);
+}
+
+// Fisher-Jenks: minimera summan av kvadratavvikelser inom klasserna (dynamisk programmering)
+function jenksBreaks(sorted: number[], k: number): number[] {
+  let data = sorted;
+  if (data.length > JENKS_MAX_SAMPLE) {
+    const step = (data.length - 1) / (JENKS_MAX_SAMPLE - 1);
+    data = Array.from({ length: JENKS_MAX_SAMPLE }, (_, i) => sorted[Math.round(i * step)]);
+  }
+  const n = data.length;
+  if (n <= k) return [data[0], ...data.slice(1, k), data[n - 1]];
+
+  // lower[i][j] = startindex (1-baserat) för sista klassen när i värden delas i j klasser
+  const lower = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  const cost = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(Infinity));
+  for (let j = 1; j <= k; j++) {
+    lower[1][j] = 1;
+    cost[1][j] = 0;
+  }
+
+  for (let i = 2; i <= n; i++) {
+    let sum = 0;
+    let sumSq = 0;
+    for (let m = 1; m <= i; m++) {
+      const start = i - m + 1;
+      const v = data[start - 1];
+      sum += v;
+      sumSq += v * v;
+      const variance = sumSq - (sum * sum) / m;
+      if (start === 1) {
+        lower[i][1] = 1;
+        cost[i][1] = variance;
+        continue;
+      }
+      for (let j = 2; j <= k; j++) {
+        const candidate = variance + cost[start - 1][j - 1];
+        if (candidate <= cost[i][j]) {
+          lower[i][j] = start;
+          cost[i][j] = candidate;
+        }
+      }
+    }
+  }
+
+  const breaks = new Array<number>(k + 1);
+  breaks[k] = data[n - 1];
+  breaks[0] = data[0];
+  let end = n;
+  for (let j = k; j >= 2; j--) {
+    const start = lower[end][j];
+    breaks[j - 1] = data[start - 1];
+    end = start - 1;
+  }
+  return breaks;
+}
+
+export function parseManualBreaks(text: string): number[] {
+  // "60; 70,5; 80" eller "60 70.5 80" — decimalkomma tillåts, komma följt av mellanslag skiljer värden
+  const values = text.replace(/,\s/g, ' ').split(/[;\s]+/).filter(Boolean).map(v => Number(v.replace(',', '.')));
+  if (values.some(v => !Number.isFinite(v))) throw new ClassifyError('Brytpunkterna måste vara tal');
+  if (values.length < 2) throw new ClassifyError('Ange minst två brytpunkter');
+  if (values.some((v, i) => i > 0 && v <= values[i - 1])) throw new ClassifyError('Brytpunkterna måste vara stigande');
+  return values;
+}
+
+export function computeBreaks(values: number[], settings: ClassSettings): number[] {
+  if (settings.method === 'manual') {
+    if (settings.manual.length < 2) throw new ClassifyError('Ange minst två brytpunkter');
+    return settings.manual;
+  }
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const k = Math.max(MIN_CLASSES, Math.min(MAX_CLASSES, settings.classes));
+  const breaks = settings.method === 'quantile' ? quantileBreaks(sorted, k)
+    : settings.method === 'jenks' ? jenksBreaks(sorted, k)
+    : equalBreaks(sorted, k);
+  // Kvantiler på data med många lika värden kan ge sammanfallande gränser — slå ihop dem
+  const distinct = breaks.filter((b, i) => i === 0 || b > breaks[i - 1]);
+  // Alla värden lika: en enda klass [v, v] i stället för noll klasser
+  return distinct.length === 1 ? [distinct[0], distinct[0]] : distinct;
+}
+
+// Klassindex för ett värde: -1 under första brytpunkten, breaks.length - 1 över sista, annars 0…k-1
+export function classIndex(value: number, breaks: number[]): number {
+  const k = breaks.length - 1;
+  if (value < breaks[0]) return -1;
+  if (value > breaks[k]) return k;
+  for (let i = 0; i < k - 1; i++) {
+    if (value < breaks[i + 1]) return i;
+  }
+  return k - 1;
+}
+
+function parseHex(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+// k färger jämnt fördelade längs paletten (linjär interpolation mellan stoppen)
+export function paletteColors(palette: string, k: number): string[] {
+  const stops = (PALETTES[palette] ?? PALETTES.viridis).stops.map(parseHex);
+  return Array.from({ length: k }, (_, i) => {
+    const t = k === 1 ? 0.5 : i / (k - 1);
+    const pos = t * (stops.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(lo + 1, stops.length - 1);
+    const f = pos - lo;
+    const rgb = stops[lo].map((c, j) => Math.round(c + (stops[hi][j] - c) * f));
+    return `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  });
+}
+
+export function withAlpha(hex: string, alpha: number): string {
+  const [r, g, b] = parseHex(hex);
+  return `rgba(${r},${g},${b},${alpha})`;
+}
@@ -0,0 +1,43 @@
+// Klientsidan av /api/geocode och /api/reverse — servern cachar och håller Nominatims takt
+
+export interface GeocodeResult {
+  name: string;
+  lat: number;
+  lon: number;
+  type?: string;
+}
+
+export interface ReverseResult {
+  name: string;
+  lat: number;
+  lon: number;
+  street: string | null;
+  postcode: string | null;
+  locality: string | null;
+  municipality: string | null;
+  county: string | null;
+}
+
+export class GeocodeError extends Error {}
+
+async function getJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  const res = await fetch(url, { signal });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new GeocodeError(data?.error || `HTTP ${res.status}`);
+  return data;
+}
+
+export async function searchPlaces(apiBase: string, query: string, signal?: AbortSignal): Promise<GeocodeResult[]> {
+  const data = await getJson<{ results: GeocodeResult[] }>(`${apiBase}/api/geocode?q=${encodeURIComponent(query)}&limit=5`, signal);
+  return data.results;
+}
+
+export function reverseGeocode(apiBase: string, [lon, lat]: [number, number], signal?: AbortSignal): Promise<ReverseResult> {
+  return getJson<ReverseResult>(`${apiBase}/api/reverse?lat=${lat.toFixed(6)}&lon=${lon.toFixed(6)}`, signal);
+}
+
+// Kort namn för ruttpunkter och sökfältet: gatuadress, annars första delen av Nominatims långa namn
+export function shortPlaceName(place: { name: string; street?: string | null }): string {
+  return place.street || place.name.split(',')[0];
+}
+
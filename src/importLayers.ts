@@ -0,0 +1,275 @@
+import Feature from 'ol/Feature';
+import type { FeatureLike } from 'ol/Feature';
+import type { Geometry } from 'ol/geom';
+import LineString from 'ol/geom/LineString';
+import MultiLineString from 'ol/geom/MultiLineString';
+import Point from 'ol/geom/Point';
+import GeoJSON from 'ol/format/GeoJSON';
+import GPX from 'ol/format/GPX';
+import KML from 'ol/format/KML';
+import { Circle as CircleStyle, Fill, Stroke, Style } from 'ol/style';
+import { transform, type ProjectionLike } from 'ol/proj';
+import { getLength } from 'ol/sphere';
+
+// Egna filer som kartlager: GPX, KML, GeoJSON och CSV med lat/lon eller SWEREF 99 TM.
+// Interna egenskaper har prefixet import så att de kan hållas utanför attributlistan i popupen.
+
+export interface ImportedLayerInfo {
+  id: string;
+  name: string;
+  color: string;
+  count: number;
+  visible: boolean;
+}
+
+export class ImportError extends Error {}
+
+export const IMPORT_EXTENSIONS = ['.gpx', '.kml', '.geojson', '.json', '.csv'];
+
+const IMPORT_COLORS = ['#0ea5e9', '#f97316', '#a855f7', '#10b981', '#e11d48', '#eab308'];
+
+export function importColor(index: number): string {
+  return IMPORT_COLORS[index % IMPORT_COLORS.length];
+}
+
+function extension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+// --- CSV ---
+
+// Enkel RFC 4180-läsare: citattecken, dubblerade citattecken och radbrytningar inom fält
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+// Semikolon är vanligast i svenska exporter (Excel med decimalkomma)
+function detectDelimiter(headerLine: string): string {
+  const candidates = [';', '\t', ','];
+  return candidates.reduce((best, d) => (headerLine.split(d).length > headerLine.split(best).length ? d : best));
+}
+
+function parseNumber(value: string | undefined): number {
+  if (value === undefined) return NaN;
+  const trimmed = value.trim().replace(/\s/g, '').replace(',', '.');
+  return trimmed === '' ? NaN : Number(trimmed);
+}
+
+const LAT_COLUMNS = /^(lat|latitude|latitud|breddgrad)$/i;
+const LON_COLUMNS = /^(lon|lng|long|longitude|longitud|längdgrad)$/i;
+// I svensk lantmäteripraxis är X norrkoordinaten och Y östkoordinaten — därför avgörs ordningen av värdena
+const SWEREF_COLUMNS = /^(x|y|n|e|northing|easting|nord|norr|öst|ost|sweref_?(99_?)?[nexy])$/i;
+
+function isSwerefNorthing(v: number) {
+  return v >= 6_100_000 && v <= 7_700_000;
+}
+
+function isSwerefEasting(v: number) {
+  return v >= 200_000 && v <= 1_000_000;
+}
+
+function readCsv(raw: string, projection: ProjectionLike): Feature[] {
+  const text = raw.replace(/^\uFEFF/, '');
+  const rows = parseCsv(text, detectDelimiter(text.split(/\r?\n/, 1)[0]));
+  if (rows.length < 2) throw new ImportError('CSV-filen saknar rader');
+  const header = rows[0].map(h => h.trim());
+  const data = rows.slice(1);
+
+  const latCol = header.findIndex(h => LAT_COLUMNS.test(h));
+  const lonCol = header.findIndex(h => LON_COLUMNS.test(h));
+  let toCoordinate: ((row: string[]) => number[] | null) | null = null;
+  let coordCols: number[] = [];
+
+  if (latCol !== -1 && lonCol !== -1) {
+    coordCols = [latCol, lonCol];
+    toCoordinate = (row) => {
+      const lat = parseNumber(row[latCol]);
+      const lon = parseNumber(row[lonCol]);
+      if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+      return transform([lon, lat], 'EPSG:4326', projection);
+    };
+  } else {
+    const candidates = header.map((h, i) => (SWEREF_COLUMNS.test(h) ? i : -1)).filter(i => i !== -1);
+    if (candidates.length >= 2) {
+      const sample = data.find(r => candidates.every(i => Number.isFinite(parseNumber(r[i]))));
+      const [a, b] = candidates;
+      let northCol = -1;
+      let eastCol = -1;
+      if (sample) {
+        const va = parseNumber(sample[a]);
+        const vb = parseNumber(sample[b]);
+        if (isSwerefNorthing(va) && isSwerefEasting(vb)) [northCol, eastCol] = [a, b];
+        else if (isSwerefNorthing(vb) && isSwerefEasting(va)) [northCol, eastCol] = [b, a];
+      }
+      if (northCol !== -1) {
+        coordCols = [northCol, eastCol];
+        toCoordinate = (row) => {
+          const n = parseNumber(row[northCol]);
+          const e = parseNumber(row[eastCol]);
+          if (!isSwerefNorthing(n) || !isSwerefEasting(e)) return null;
+          return transform([e, n], 'EPSG:3006', projection);
+        };
+      }
+    }
+  }
+  if (!toCoordinate) {
+    throw new ImportError('Hittar inga koordinatkolumner — använd lat/lon (WGS84) eller N/E (SWEREF 99 TM)');
+  }
+
+  const features: Feature[] = [];
+  for (const row of data) {
+    const coordinate = toCoordinate(row);
+    if (!coordinate) continue;
+    const feature = new Feature(new Point(coordinate));
+    header.forEach((h, i) => {
+      if (!coordCols.includes(i) && h && h !== 'geometry') feature.set(h, row[i]?.trim() ?? '');
+    });
+    features.push(feature);
+  }
+  if (features.length === 0) throw new ImportError('Inga rader med giltiga koordinater');
+  return features;
+}
+
+// --- GPX-statistik ---
+
+function lineParts(geometry: Geometry | undefined): LineString[] {
+  if (geometry instanceof LineString) return [geometry];
+  if (geometry instanceof MultiLineString) return geometry.getLineStrings();
+  return [];
+}
+
+// Total höjdökning längs spåret (summan av alla stigningar); null om spåret saknar höjd
+function elevationGain(parts: LineString[]): number | null {
+  if (!parts.some(p => p.getLayout().includes('Z'))) return null;
+  let gain = 0;
+  for (const part of parts) {
+    const coords = part.getCoordinates();
+    for (let i = 1; i < coords.length; i++) {
+      const diff = coords[i][2] - coords[i - 1][2];
+      if (diff > 0) gain += diff;
+    }
+  }
+  return gain;
+}
+
+function addTrackStats(features: Feature[], projection: ProjectionLike) {
+  for (const feature of features) {
+    const parts = lineParts(feature.getGeometry());
+    if (parts.length === 0) continue;
+    feature.set('importDistance', parts.reduce((sum, p) => sum + getLength(p, { projection }), 0));
+    feature.set('importElevationGain', elevationGain(parts));
+  }
+}
+
+// --- Läsning ---
+
+export async function readImportFile(file: File, projection: ProjectionLike): Promise<Feature[]> {
+  const ext = extension(file.name);
+  if (!IMPORT_EXTENSIONS.includes(ext)) {
+    throw new ImportError(`${file.name}: okänt filformat (stöds: ${IMPORT_EXTENSIONS.join(', ')})`);
+  }
+  const text = await file.text();
+  const options = { dataProjection: 'EPSG:4326', featureProjection: projection };
+  let features: Feature[];
+  try {
+    if (ext === '.gpx') {
+      features = new GPX().readFeatures(text, options);
+      addTrackStats(features, projection);
+    } else if (ext === '.kml') {
+      features = new KML().readFeatures(text, options);
+    } else if (ext === '.csv') {
+      features = readCsv(text, projection);
+    } else {
+      features = new GeoJSON().readFeatures(text, options);
+    }
+  } catch (e) {
+    if (e instanceof ImportError) throw new ImportError(`${file.name}: ${e.message}`);
+    throw new ImportError(`${file.name}: kunde inte läsas (${e instanceof Error ? e.message : e})`);
+  }
+  features = features.filter(f => f.getGeometry());
+  if (features.length === 0) throw new ImportError(`${file.name}: inga geometrier hittades`);
+  return features;
+}
+
+export function importLayerName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+// --- Stil och popup ---
+
+const styleCache: Record<string, Style> = {};
+export function importStyle(color: string): Style {
+  if (!styleCache[color]) {
+    styleCache[color] = new Style({
+      fill: new Fill({ color: `${color}33` }),
+      stroke: new Stroke({ color, width: 2.5 }),
+      image: new CircleStyle({
+        radius: 6,
+        fill: new Fill({ color }),
+        stroke: new Stroke({ color: '#fff', width: 1.5 }),
+      }),
+    });
+  }
+  return styleCache[color];
+}
+
+export interface ImportPopupInfo {
+  title: string;
+  layer: string;
+  distance: number | null; // meter, bara för spår och rutter
+  elevationGain: number | null;
+  attributes: [string, string][];
+}
+
+// Filens egna attribut för popupen — renderas av React eftersom de kommer från användarens fil
+export function importPopupInfo(feature: FeatureLike): ImportPopupInfo {
+  const props = feature.getProperties();
+  const title = props.name ?? props.namn ?? props.title ?? props.Name;
+  const attributes = Object.entries(props)
+    .filter(([key, value]) => (
+      !key.startsWith('import') && key !== 'geometry' && value !== undefined && value !== null && value !== ''
+      && typeof value !== 'object' && value !== title
+    ))
+    .map(([key, value]): [string, string] => [key, String(value)]);
+  return {
+    title: String(title ?? feature.get('importLayer')),
+    layer: feature.get('importLayer'),
+    distance: props.importDistance ?? null,
+    elevationGain: props.importDistance !== undefined ? props.importElevationGain ?? null : null,
+    attributes,
+  };
+}
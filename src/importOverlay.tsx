@@ -0,0 +1,118 @@
+import { useRef, useState } from 'react';
+import LayerGroup from 'ol/layer/Group';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Point from 'ol/geom/Point';
+import { createEmpty, extend } from 'ol/extent';
+import { toLonLat } from 'ol/proj';
+import {
+  ImportError, importColor, importLayerName, importStyle, readImportFile, type ImportedLayerInfo,
+} from './importLayers';
+import ImportPanel from './ImportPanel';
+import ImportPopup from './ImportPopup';
+import { tagLayer, type MapOverlay, type OverlayContext } from './overlays';
+
+export interface ImportOverlay extends MapOverlay {
+  importFiles: (files: File[]) => Promise<void>;
+}
+
+// Egna filer släppta på kartan blir varsitt vektorlager i en grupp ovanför statistik och markörer
+export function useImportOverlay({ mapRef, closePopup }: OverlayContext): ImportOverlay {
+  const [group] = useState(() => new LayerGroup({ zIndex: 8 }));
+  const layersRef = useRef<Record<string, VectorLayer<VectorSource>>>({});
+  const counterRef = useRef(0);
+  const [layers, setLayers] = useState<ImportedLayerInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFiles = async (files: File[]) => {
+    const map = mapRef.current;
+    if (!map || files.length === 0) return;
+    const errors: string[] = [];
+    const added: VectorLayer<VectorSource>[] = [];
+    for (const file of files) {
+      try {
+        const features = await readImportFile(file, map.getView().getProjection());
+        const id = `import-${++counterRef.current}`;
+        const name = importLayerName(file.name);
+        const color = importColor(counterRef.current - 1);
+        for (const f of features) f.set('importLayer', name);
+        const layer = new VectorLayer({
+          source: new VectorSource({ features }),
+          style: importStyle(color),
+        });
+        tagLayer(layer, 'import');
+        group.getLayers().push(layer);
+        layersRef.current[id] = layer;
+        added.push(layer);
+        setLayers(prev => [...prev, { id, name, color, count: features.length, visible: true }]);
+      } catch (e) {
+        // Oväntade fel (t.ex. file.text() eller en trasig geometri) visas också i panelen
+        console.error('Import error:', e);
+        errors.push(e instanceof ImportError ? e.message : `${file.name}: kunde inte importeras (${e instanceof Error ? e.message : e})`);
+      }
+    }
+    setError(errors.length > 0 ? errors.join('\n') : null);
+    if (added.length > 0) {
+      const extent = createEmpty();
+      for (const layer of added) extend(extent, layer.getSource()!.getExtent()!);
+      map.getView().fit(extent, { padding: [60, 60, 60, 60], maxZoom: 16, duration: 400 });
+    }
+  };
+
+  const toggleLayer = (id: string) => {
+    const layer = layersRef.current[id];
+    if (!layer) return;
+    layer.setVisible(!layer.getVisible());
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, visible: layer.getVisible() } : l));
+  };
+
+  const zoomToLayer = (id: string) => {
+    const extent = layersRef.current[id]?.getSource()?.getExtent();
+    if (!extent) return;
+    mapRef.current?.getView().fit(extent, { padding: [60, 60, 60, 60], maxZoom: 16, duration: 400 });
+  };
+
+  const removeLayer = (id: string) => {
+    const layer = layersRef.current[id];
+    if (!layer) return;
+    group.getLayers().remove(layer);
+    delete layersRef.current[id];
+    closePopup();
+    setLayers(prev => prev.filter(l => l.id !== id));
+  };
+
+  return {
+    id: 'import',
+    layer: group,
+    sources: () => Object.values(layersRef.current).map(l => l.getSource()!),
+    hitPriority: 20,
+    // Punkter förankras i punkten, linjer och ytor där man klickade
+    popup: (feature) => {
+      const geom = feature.getGeometry();
+      if (!(geom instanceof Point)) return { body: <ImportPopup feature={feature} /> };
+      const name = feature.get('name') ?? feature.get('namn') ?? feature.get('importLayer');
+      const projection = mapRef.current?.getView().getProjection();
+      return {
+        body: <ImportPopup feature={feature} />,
+        position: geom.getCoordinates(),
+        place: { name: String(name), lonLat: toLonLat(geom.getCoordinates(), projection) as [number, number] },
+      };
+    },
+    describe: f => ({
+      type: f.getGeometry() instanceof Point ? 'importerad punkt' : 'importerat objekt',
+      name: String(f.get('name') ?? f.get('namn') ?? f.get('importLayer')),
+    }),
+    panel: (layers.length > 0 || error) && (
+      <ImportPanel
+        layers={layers}
+        error={error}
+        onToggle={toggleLayer}
+        onZoom={zoomToLayer}
+        onRemove={removeLayer}
+        onDismissError={() => setError(null)}
+      />
+    ),
+    contextLayers: layers.filter(l => l.visible).map(l => l.name),
+    importFiles,
+  };
+}
@@ -0,0 +1,55 @@
+import WMTS from 'ol/source/WMTS';
+import WMTSTileGrid from 'ol/tilegrid/WMTS';
+import { PROJECTIONS, type ProjectionMode } from './projection';
+
+// Lagerkatalog från /api/layers (WMTS GetCapabilities, parsad på servern)
+
+export interface TileMatrixSet {
+  id: string;
+  crs: string;
+  tileSize: number;
+  origin: [number, number];
+  extent: [number, number, number, number];
+  resolutions: number[];
+  matrixIds: string[];
+  matrixSizes: [number, number][];
+}
+
+export interface CatalogueLayer {
+  id: string;
+  title: string;
+  formats: string[];
+  style: string;
+  matrixSets: TileMatrixSet[];
+}
+
+export const OSM_LAYER_ID = 'osm';
+
+export function findMatrixSet(layer: CatalogueLayer, mode: ProjectionMode): TileMatrixSet | undefined {
+  return layer.matrixSets.find(tms => tms.crs === PROJECTIONS[mode].code);
+}
+
+export function createWmtsSource(layer: CatalogueLayer, mode: ProjectionMode, apiBase: string): WMTS | null {
+  const tms = findMatrixSet(layer, mode);
+  if (!tms) return null;
+
+  const tileGrid = new WMTSTileGrid({
+    tileSize: tms.tileSize,
+    extent: tms.extent,
+    resolutions: tms.resolutions,
+    matrixIds: tms.matrixIds,
+    origin: tms.origin,
+  });
+
+  return new WMTS({
+    url: `${apiBase}/api/wmts`,
+    layer: layer.id,
+    format: layer.formats.includes('image/png') ? 'image/png' : layer.formats[0],
+    matrixSet: tms.id,
+    projection: tms.crs,
+    tileGrid,
+    version: '1.0.0',
+    style: layer.style,
+    requestEncoding: 'KVP',
+  });
+}
@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import { Icon, Style } from 'ol/style';
+import { fromLonLat } from 'ol/proj';
+import type { MapOverlay, OverlayContext } from './overlays';
+
+const markerStyle = new Style({
+  image: new Icon({
+    anchor: [0.5, 1],
+    scale: 1.5,
+    src: 'data:image/svg+xml,' + encodeURIComponent(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="32" viewBox="0 0 24 32">' +
+      '<path d="M12 0C5.4 0 0 5.4 0 12c0 9 12 20 12 20s12-11 12-20C24 5.4 18.6 0 12 0z" fill="%23e74c3c"/>' +
+      '<circle cx="12" cy="11" r="4" fill="white"/>' +
+      '</svg>'
+    ),
+  }),
+});
+
+export interface MarkerOverlay extends MapOverlay {
+  marker: [number, number] | null;
+  place: (lonLat: [number, number] | null) => void;
+}
+
+// Sökmarkören: en nål där det valda sökresultatet ligger
+export function useMarkerOverlay({ mapRef }: OverlayContext): MarkerOverlay {
+  const [source] = useState(() => new VectorSource());
+  const [layer] = useState(() => new VectorLayer({ source, style: markerStyle }));
+  const [marker, setMarker] = useState<[number, number] | null>(null);
+
+  const place = useCallback((lonLat: [number, number] | null) => {
+    source.clear();
+    setMarker(lonLat);
+    if (!lonLat) return;
+    const projection = mapRef.current?.getView().getProjection();
+    source.addFeature(new Feature(new Point(fromLonLat(lonLat, projection))));
+  }, [source, mapRef]);
+
+  return {
+    id: 'marker',
+    layer,
+    sources: () => [source],
+    contextLayers: [],
+    hashState: { marker },
+    restore: state => place(state.marker ?? null),
+    marker,
+    place,
+  };
+}
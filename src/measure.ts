@@ -0,0 +1,126 @@
+import type { FeatureLike } from 'ol/Feature';
+import LineString from 'ol/geom/LineString';
+import Point from 'ol/geom/Point';
+import Polygon from 'ol/geom/Polygon';
+import { Circle as CircleStyle, Fill, Stroke, Style, Text } from 'ol/style';
+import { toLonLat, type ProjectionLike } from 'ol/proj';
+import { getArea, getDistance, getLength } from 'ol/sphere';
+import type { Coordinate } from 'ol/coordinate';
+
+// Mätverktyg: geodetiska längder och ytor (ol/sphere räknar på jordklotet, inte i kartprojektionen,
+// så värdena blir rätta i både EPSG:3857 och EPSG:3006)
+
+export type MeasureMode = 'line' | 'area';
+
+export function formatLength(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toLocaleString('sv-SE', { maximumFractionDigits: meters < 10_000 ? 2 : 1 })} km`;
+}
+
+export function formatArea(squareMeters: number): string {
+  const ha = (squareMeters / 10_000).toLocaleString('sv-SE', { maximumFractionDigits: squareMeters < 100_000 ? 2 : 0 });
+  if (squareMeters < 1_000_000) {
+    return `${Math.round(squareMeters).toLocaleString('sv-SE')} m² · ${ha} ha`;
+  }
+  const km2 = (squareMeters / 1_000_000).toLocaleString('sv-SE', { maximumFractionDigits: 2 });
+  return `${km2} km² · ${ha} ha`;
+}
+
+// Initial kurs (storcirkel) från a till b i grader medurs från norr, [lon, lat]
+export function bearing(a: Coordinate, b: Coordinate): number {
+  const toRad = Math.PI / 180;
+  const [lon1, lat1] = [a[0] * toRad, a[1] * toRad];
+  const [lon2, lat2] = [b[0] * toRad, b[1] * toRad];
+  const y = Math.sin(lon2 - lon1) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(lon2 - lon1);
+  return (Math.atan2(y, x) / toRad + 360) % 360;
+}
+
+export interface Segment {
+  from: Coordinate; // kartkoordinater
+  to: Coordinate;
+  length: number;   // meter
+  bearing: number;  // grader
+}
+
+export function segments(coords: Coordinate[], projection: ProjectionLike): Segment[] {
+  const lonLat = coords.map(c => toLonLat(c, projection));
+  const result: Segment[] = [];
+  for (let i = 1; i < coords.length; i++) {
+    const length = getDistance(lonLat[i - 1], lonLat[i]);
+    if (length === 0) continue;
+    result.push({ from: coords[i - 1], to: coords[i], length, bearing: bearing(lonLat[i - 1], lonLat[i]) });
+  }
+  return result;
+}
+
+const MEASURE_COLOR = '#facc15';
+const LABEL_FONT = '600 12px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
+const SEGMENT_FONT = '11px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
+
+const lineStyle = new Style({
+  stroke: new Stroke({ color: MEASURE_COLOR, width: 3, lineDash: [8, 6] }),
+  fill: new Fill({ color: 'rgba(250, 204, 21, 0.15)' }),
+});
+
+const vertexStyle = new Style({
+  image: new CircleStyle({
+    radius: 4,
+    fill: new Fill({ color: MEASURE_COLOR }),
+    stroke: new Stroke({ color: '#0f172a', width: 1 }),
+  }),
+});
+
+function label(text: string, geometry: Point, font = LABEL_FONT, offsetY = 0): Style {
+  return new Style({
+    geometry,
+    text: new Text({
+      text,
+      font,
+      offsetY,
+      fill: new Fill({ color: '#0f172a' }),
+      backgroundFill: new Fill({ color: 'rgba(250, 204, 21, 0.9)' }),
+      padding: [2, 4, 2, 4],
+      overflow: true,
+    }),
+  });
+}
+
+// Stil med etiketter: längd och kurs per delsträcka, total längd i slutpunkten, yta och omkrets mitt i polygonen.
+// Används både för färdiga mätningar och för skissen under ritning.
+export function measureStyle(feature: FeatureLike, projection: ProjectionLike): Style[] {
+  const geometry = feature.getGeometry();
+  if (geometry instanceof Point) return [vertexStyle];
+
+  const styles = [lineStyle];
+  let coords: Coordinate[];
+  if (geometry instanceof LineString) {
+    coords = geometry.getCoordinates();
+  } else if (geometry instanceof Polygon) {
+    coords = geometry.getCoordinates()[0] ?? [];
+  } else {
+    return styles;
+  }
+
+  const segs = segments(coords, projection);
+  // Delsträckor bara när de är fler än en — annars säger totalen samma sak
+  if (segs.length > 1) {
+    for (const seg of segs) {
+      const mid = new Point([(seg.from[0] + seg.to[0]) / 2, (seg.from[1] + seg.to[1]) / 2]);
+      styles.push(label(`${formatLength(seg.length)} · ${Math.round(seg.bearing)}°`, mid, SEGMENT_FONT));
+    }
+  }
+
+  if (geometry instanceof LineString && segs.length > 0) {
+    const total = getLength(geometry, { projection });
+    const text = segs.length === 1
+      ? `${formatLength(total)} · ${Math.round(segs[0].bearing)}°`
+      : `Totalt ${formatLength(total)}`;
+    styles.push(label(text, new Point(geometry.getLastCoordinate()), LABEL_FONT, -16));
+  } else if (geometry instanceof Polygon && segs.length > 1) {
+    const area = getArea(geometry, { projection });
+    const perimeter = segs.reduce((sum, s) => sum + s.length, 0);
+    styles.push(label(`${formatArea(area)}\nOmkrets ${formatLength(perimeter)}`, geometry.getInteriorPoint()));
+  }
+  return styles;
+}
@@ -0,0 +1,108 @@
+// Tolkning av OSM-taggen opening_hours, t.ex. "Mo-Fr 08:00-17:00; Sa 10:00-14:00; Su off".
+// Stöder veckodagar, dagintervall, flera tider per dag, tider över midnatt, off/closed och 24/7.
+// Regler med månader, veckonummer, helgdagar (PH/SH) som enda dag eller fria kommentarer tolkas
+// inte — då visas taggen som den är och platsen räknas varken som öppen eller stängd.
+
+// Minuter från midnatt; "to" kan passera 1440 när tiden går över midnatt
+export interface TimeSpan {
+  from: number;
+  to: number;
+}
+
+// Sju dagar med måndag först, tom lista = stängt
+export type WeekSchedule = TimeSpan[][];
+
+export const WEEKDAY_LABELS = ['Mån', 'Tis', 'Ons', 'Tor', 'Fre', 'Lör', 'Sön'];
+
+const DAY_CODES = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const TIME_SPAN_RE = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+function parseDays(selector: string): number[] | null {
+  const days = new Set<number>();
+  for (const part of selector.split(',')) {
+    // Helgdagar går inte att avgöra här — "Mo-Fr,PH 08:00-17:00" gäller vardagarna
+    if (part === 'PH' || part === 'SH') continue;
+    const [first, last] = part.split('-');
+    const start = DAY_CODES.indexOf(first);
+    const end = last === undefined ? start : DAY_CODES.indexOf(last);
+    if (start < 0 || end < 0) return null;
+    // Intervall kan gå över veckoskiftet, t.ex. Fr-Mo
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === end) break;
+    }
+  }
+  return [...days];
+}
+
+function parseTimes(selector: string): TimeSpan[] | null {
+  const spans: TimeSpan[] = [];
+  for (const part of selector.split(',')) {
+    const m = TIME_SPAN_RE.exec(part.trim());
+    if (!m) return null;
+    const from = Number(m[1]) * 60 + Number(m[2]);
+    let to = Number(m[3]) * 60 + Number(m[4]);
+    if (from >= 1440 || to > 1440 || Number(m[2]) >= 60 || Number(m[4]) >= 60) return null;
+    if (to <= from) to += 1440;
+    spans.push({ from, to });
+  }
+  return spans;
+}
+
+// Veckoschema ur taggen, eller null om den inte går att tolka. Senare regler ersätter tidigare
+// för de dagar de nämner, som i OSM.
+export function parseOpeningHours(value: string): WeekSchedule | null {
+  const trimmed = value.trim();
+  if (trimmed === '24/7') return Array.from({ length: 7 }, () => [{ from: 0, to: 1440 }]);
+
+  const week: WeekSchedule = Array.from({ length: 7 }, () => []);
+  let matched = false;
+  for (const rule of trimmed.split(';').map(r => r.trim()).filter(Boolean)) {
+    const [first, ...rest] = rule.split(/\s+/);
+    const daySelector = /^[A-Z]/.test(first) ? first : null;
+    const timeSelector = (daySelector ? rest : [first, ...rest]).join('');
+
+    // Bara helgdagar ("PH off") säger inget om en vanlig vecka
+    if (daySelector && daySelector.split(',').every(d => d === 'PH' || d === 'SH')) continue;
+
+    const days = daySelector ? parseDays(daySelector) : [0, 1, 2, 3, 4, 5, 6];
+    if (!days) return null;
+
+    let spans: TimeSpan[] | null;
+    if (timeSelector === 'off' || timeSelector === 'closed') spans = [];
+    else if (timeSelector === '' || timeSelector === 'open') spans = [{ from: 0, to: 1440 }];
+    else spans = parseTimes(timeSelector);
+    if (!spans) return null;
+
+    for (const d of days) week[d] = spans;
+    matched = true;
+  }
+  return matched ? week : null;
+}
+
+// Tidsintervallet som är öppet vid tidpunkten, inklusive gårdagens som gått över midnatt
+export function openSpanAt(week: WeekSchedule, date: Date): TimeSpan | null {
+  const day = (date.getDay() + 6) % 7;
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const today = week[day].find(s => s.from <= minute && minute < s.to);
+  if (today) return today;
+  const yesterday = week[(day + 6) % 7].find(s => s.to > 1440 && minute + 1440 < s.to);
+  return yesterday ?? null;
+}
+
+export function isOpenAt(week: WeekSchedule, date: Date): boolean {
+  return openSpanAt(week, date) !== null;
+}
+
+// 480 → "08:00"; tider över midnatt visas som klockslag nästa dygn, men stängning vid midnatt som 24:00
+export function formatMinutes(minutes: number): string {
+  if (minutes === 1440) return '24:00';
+  const m = minutes % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function formatSpans(spans: TimeSpan[]): string {
+  if (spans.length === 0) return 'Stängt';
+  if (spans.length === 1 && spans[0].from === 0 && spans[0].to === 1440) return 'Dygnet runt';
+  return spans.map(s => `${formatMinutes(s.from)}–${formatMinutes(s.to)}`).join(', ');
+}
@@ -0,0 +1,87 @@
+import type { ReactNode, RefObject } from 'react';
+import type Map from 'ol/Map';
+import type BaseLayer from 'ol/layer/Base';
+import type VectorSource from 'ol/source/Vector';
+import type { FeatureLike } from 'ol/Feature';
+import type { Coordinate } from 'ol/coordinate';
+import type { MapState } from './permalink';
+
+// Ett dataöverlägg på kartan (POI, kommunstatistik, AI-platser, sökmarkör, importerade filer …).
+// Varje överlägg är en hook i en egen modul som ger ett MapOverlay; App ritar kartans lager,
+// POI-raden, legendytan och popupen utifrån listan av överlägg i stället för per lager.
+
+// Det App ger överläggen: kartan, popupen och val som väntar på att ett lager ska laddas
+export interface OverlayContext {
+  apiBase: string;
+  mapRef: RefObject<Map | null>;
+  closePopup: () => void;
+  restorePendingSelection: () => void;
+}
+
+export interface PopupContent {
+  body: ReactNode; // renderas av React — OSM-taggar, AI-text och filattribut escapas
+  position?: Coordinate; // annars där användaren klickade
+  place?: { name: string; lonLat: [number, number] }; // kan läggas till som ruttpunkt
+}
+
+export interface MapOverlay {
+  id: string;
+  // Lagret (eller lagergruppen) som läggs på kartan; ordningen i listan är ritordningen
+  layer: BaseLayer;
+  // Features som projiceras om vid byte av projektion och söks igenom efter valet i URL:en
+  sources: () => VectorSource[];
+
+  // Klickbara överlägg: högst prioritet vinner när flera features ligger under pekaren
+  hitPriority?: number;
+  // Klick på en feature → den feature som popupen ska visa, eller null om överlägget skött klicket
+  // självt (t.ex. en klusterbubbla som zoomar in). Utelämnad: featuren själv.
+  click?: (feature: FeatureLike, map: Map) => FeatureLike | null;
+  popup?: (feature: FeatureLike, coordinate: Coordinate) => PopupContent;
+  // Stabil identitet i URL:en (sel=), t.ex. poi:node/123
+  selectionId?: (feature: FeatureLike) => string | null;
+  // Vald feature i chattens kartkontext
+  describe?: (feature: FeatureLike) => { type: string; name: string };
+  // Ändras när en öppen popup behöver ritas om (t.ex. nytt år i statistiken)
+  popupRevision?: unknown;
+
+  // UI: knappar i POI-raden, status efter knapparna, legend och flytande panel
+  toggle?: ReactNode;
+  status?: ReactNode;
+  legend?: ReactNode;
+  panel?: ReactNode;
+
+  // Synliga lager i chattens kartkontext
+  contextLayers: string[];
+  // Överläggets del av URL-hashen och återställning från den (saknade fält = av)
+  hashState?: Partial<MapState>;
+  restore?: (state: Partial<MapState>) => void;
+  // Sant medan URL:en inte ska få historikposter (t.ex. under uppspelning)
+  holdHistory?: boolean;
+  // Efter panorering/zoom
+  onViewChange?: () => void;
+}
+
+const OVERLAY_KEY = 'overlayId';
+
+// Märk lager med överläggets id så att träffar under pekaren kan föras tillbaka till överlägget.
+// Överlägg med lagergrupper märker även lagren de lägger till i gruppen.
+export function tagLayer(layer: BaseLayer, overlayId: string) {
+  layer.set(OVERLAY_KEY, overlayId);
+}
+
+export function overlayIdOf(layer: BaseLayer): string | undefined {
+  return layer.get(OVERLAY_KEY);
+}
+
+export function findSelected(
+  overlays: MapOverlay[], selection: string,
+): { overlay: MapOverlay; feature: FeatureLike } | null {
+  for (const overlay of overlays) {
+    if (!overlay.selectionId) continue;
+    for (const source of overlay.sources()) {
+      const feature = source.getFeatures().find(f => overlay.selectionId!(f) === selection);
+      if (feature) return { overlay, feature };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,110 @@
+import type { ProjectionMode } from './projection';
+import { DEFAULT_STAT_TABLE, type StatQuery } from './scbStats';
+
+// Kartans tillstånd i URL-hashen, t.ex.
+// #c=59.33000,18.07000&z=12.00&proj=3006&base=topowebb&poi=kafeer,parker&m=59.3,18.1&sel=kommun:0180
+// &stat=AM/AM0210/AM0210D/ArRegArbStatus;ContentsCode=000002NS;Tid=2024
+
+export interface SharedPlace {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface MapState {
+  proj: ProjectionMode;
+  center: [number, number]; // [lon, lat]
+  zoom: number;
+  base: string;
+  overlay: string | null;
+  poi: string[];
+  stat: StatQuery | null;
+  marker: [number, number] | null; // [lon, lat]
+  ai: SharedPlace[];
+  sel: string | null;
+}
+
+function parseLatLon(value: string | null): [number, number] | null {
+  if (!value) return null;
+  const [lat, lon] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return [lon, lat];
+}
+
+// tabell;Kod=värde;Kod=värde
+function parseStat(value: string): StatQuery | null {
+  const [table, ...pairs] = value.split(';');
+  if (!table) return null;
+  const selection: Record<string, string> = {};
+  for (const pair of pairs) {
+    const i = pair.indexOf('=');
+    if (i > 0) selection[pair.slice(0, i)] = pair.slice(i + 1);
+  }
+  return { table, selection };
+}
+
+function formatStat(stat: StatQuery): string {
+  return [stat.table, ...Object.entries(stat.selection).map(([code, value]) => `${code}=${value}`)].join(';');
+}
+
+function parsePlaces(value: string | null): SharedPlace[] {
+  if (!value) return [];
+  try {
+    const rows: unknown = JSON.parse(value);
+    if (!Array.isArray(rows)) return [];
+    return rows
+      .filter((r): r is [string, number, number] =>
+        Array.isArray(r) && typeof r[0] === 'string' && Number.isFinite(r[1]) && Number.isFinite(r[2]))
+      .map(([name, lat, lon]) => ({ name, lat, lon }));
+  } catch {
+    return [];
+  }
+}
+
+export function parseMapHash(hash: string): Partial<MapState> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<MapState> = {};
+
+  const center = parseLatLon(params.get('c'));
+  if (center) state.center = center;
+  const zoom = Number(params.get('z'));
+  if (params.has('z') && Number.isFinite(zoom)) state.zoom = zoom;
+  const proj = params.get('proj');
+  if (proj === '3857' || proj === '3006') state.proj = proj;
+  if (params.has('base')) state.base = params.get('base')!;
+  if (params.has('ovl')) state.overlay = params.get('ovl');
+  if (params.has('poi')) state.poi = params.get('poi')!.split(',').filter(Boolean);
+  if (params.has('stat')) state.stat = parseStat(params.get('stat')!);
+  // Äldre länkar: syss=1 var sysselsättningskartan
+  else if (params.has('syss')) state.stat = params.get('syss') === '1' ? { table: DEFAULT_STAT_TABLE, selection: {} } : null;
+  const marker = parseLatLon(params.get('m'));
+  if (marker) state.marker = marker;
+  if (params.has('ai')) state.ai = parsePlaces(params.get('ai'));
+  if (params.has('sel')) state.sel = params.get('sel');
+  return state;
+}
+
+export function formatMapHash(state: MapState): string {
+  const params = new URLSearchParams();
+  params.set('c', `${state.center[1].toFixed(5)},${state.center[0].toFixed(5)}`);
+  params.set('z', state.zoom.toFixed(2));
+  params.set('proj', state.proj);
+  params.set('base', state.base);
+  if (state.overlay) params.set('ovl', state.overlay);
+  if (state.poi.length > 0) params.set('poi', state.poi.join(','));
+  if (state.stat) params.set('stat', formatStat(state.stat));
+  if (state.marker) params.set('m', `${state.marker[1].toFixed(5)},${state.marker[0].toFixed(5)}`);
+  if (state.ai.length > 0) {
+    params.set('ai', JSON.stringify(state.ai.map(p => [p.name, +p.lat.toFixed(5), +p.lon.toFixed(5)])));
+  }
+  if (state.sel) params.set('sel', state.sel);
+  return `#${params.toString()}`;
+}
+
+// Hashen utan vyn (c, z) — skiljer ändrade lager, överlägg och val från ren panorering och zoom
+export function withoutView(hash: string): string {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  params.delete('c');
+  params.delete('z');
+  return params.toString();
+}
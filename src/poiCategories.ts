@@ -0,0 +1,38 @@
+// POI-kategorier hämtas från /api/poi-categories; egna filter sparas lokalt i webbläsaren
+
+export interface PoiCategoryDef {
+  id: string;
+  label: string;
+  emoji: string;
+  color: string;
+  filter: string;
+  custom?: boolean;
+}
+
+const STORAGE_KEY = 'weraryu.customPoiCategories';
+
+const CUSTOM_COLORS = ['#ec4899', '#14b8a6', '#a855f7', '#f43f5e', '#84cc16', '#0ea5e9'];
+
+export function customColor(index: number): string {
+  return CUSTOM_COLORS[index % CUSTOM_COLORS.length];
+}
+
+export function loadCustomCategories(): PoiCategoryDef[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(c => c && typeof c.id === 'string' && typeof c.filter === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomCategories(categories: PoiCategoryDef[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(categories.filter(c => c.custom)));
+}
+
+// Query-parametrar för /api/pois — egna filter skickas som filter=, registrerade som category=
+export function poiQuery(category: PoiCategoryDef): string {
+  return category.custom
+    ? `filter=${encodeURIComponent(category.filter)}`
+    : `category=${encodeURIComponent(category.id)}`;
+}
@@ -0,0 +1,342 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Cluster from 'ol/source/Cluster';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import { Style, Circle as CircleStyle, Fill, Stroke, Text } from 'ol/style';
+import type { FeatureLike } from 'ol/Feature';
+import { boundingExtent, getCenter, getHeight, getWidth } from 'ol/extent';
+import { fromLonLat, toLonLat, transformExtent } from 'ol/proj';
+import { customColor, loadCustomCategories, poiQuery, saveCustomCategories, type PoiCategoryDef } from './poiCategories';
+import CustomPoiForm from './CustomPoiForm';
+import { formatCountdown, retryAfterSeconds, useCountdown } from './rateLimit';
+import { isOpenAt, parseOpeningHours, type WeekSchedule } from './openingHours';
+import PoiPopup from './PoiPopup';
+import type { MapOverlay, OverlayContext } from './overlays';
+
+interface POI {
+  id: number;
+  type: 'node' | 'way' | 'relation';
+  name: string;
+  lat: number;
+  lon: number;
+  tags: Record<string, string>;
+}
+
+// Klusterstil: enskild POI i kategorins färg, annars en bubbla med antal (kantfärg = vanligaste kategorin)
+const poiStyleCache: Record<string, Style> = {};
+function poiClusterStyle(cluster: FeatureLike): Style {
+  const members: FeatureLike[] = cluster.get('features');
+  const counts: Record<string, number> = {};
+  for (const f of members) counts[f.get('poiColor')] = (counts[f.get('poiColor')] || 0) + 1;
+  const color = Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0];
+  const key = `${color}:${members.length}`;
+
+  if (!poiStyleCache[key]) {
+    poiStyleCache[key] = members.length === 1
+      ? new Style({
+          image: new CircleStyle({
+            radius: 7,
+            fill: new Fill({ color }),
+            stroke: new Stroke({ color: '#fff', width: 2 }),
+          }),
+        })
+      : new Style({
+          image: new CircleStyle({
+            radius: Math.min(10 + Math.log2(members.length) * 2.5, 24),
+            fill: new Fill({ color: 'rgba(15, 23, 42, 0.85)' }),
+            stroke: new Stroke({ color, width: 3 }),
+          }),
+          text: new Text({
+            text: String(members.length),
+            fill: new Fill({ color: '#fff' }),
+            font: '600 12px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+          }),
+        });
+  }
+  return poiStyleCache[key];
+}
+
+// Servern delar bboxen i högst 16 rutor om 1,6° — en vy som är högst tre rutor bred och hög ryms alltid.
+// Större vyer hämtas inte alls, så att utzoomad karta visar en uppmaning i stället för ett tyst fel.
+const MAX_BBOX_DEG = 4.8;
+const ZOOM_IN_HINT = 'Zooma in för att visa POI:er';
+
+// OSM-POI:er per kategori från /api/poi-categories, klustrade och omhämtade när vyn ändras
+export function usePoiOverlay({ apiBase, mapRef, closePopup, restorePendingSelection }: OverlayContext): MapOverlay {
+  const [source] = useState(() => new VectorSource());
+  const openNowRef = useRef(false);
+  // Täta POI-områden klustras; bubblan med antal zoomar in vid klick. Med "Öppet nu" lämnas platser
+  // som enligt sina öppettider är stängda utanför klustren — okända öppettider visas alltid.
+  const [cluster] = useState(() => new Cluster({
+    source,
+    distance: 40,
+    minDistance: 20,
+    geometryFunction: (feature) => {
+      const hours: WeekSchedule | null = feature.get('poiHours');
+      if (openNowRef.current && hours && !isOpenAt(hours, new Date())) return null;
+      return feature.getGeometry() as Point;
+    },
+  }));
+  const [layer] = useState(() => new VectorLayer({ source: cluster, style: poiClusterStyle }));
+  const [openNow, setOpenNow] = useState(false);
+  const [activeCategories, setActiveCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Varför POI:er inte visas (för stort område, ogiltigt filter), null när senaste hämtningen gick bra
+  const [notice, setNotice] = useState<string | null>(null);
+  const activeCategoriesRef = useRef<string[]>([]);
+  const [categoryDefs, setCategoryDefs] = useState<PoiCategoryDef[]>([]);
+  const categoryDefsRef = useRef<PoiCategoryDef[]>([]);
+  const fetchesRef = useRef(0);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const removeFeatures = useCallback((category: string) => {
+    for (const f of source.getFeatures()) {
+      if (f.get('poiCategoryId') === category) source.removeFeature(f);
+    }
+  }, [source]);
+
+  // Vid 429 väntar POI-hämtningen ut servern och försöker sedan igen för de aktiva kategorierna
+  const [wait, startWait] = useCountdown(() => {
+    for (const category of activeCategoriesRef.current) fetchPois(category);
+  });
+
+  const fetchPois = useCallback(async (category: string) => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const view = map.getView();
+    const extent = view.calculateExtent(map.getSize());
+    const [west, south, east, north] = transformExtent(extent, view.getProjection(), 'EPSG:4326');
+    const bbox = `${south},${west},${north},${east}`;
+
+    // Kategorierna kanske inte har laddats än — hämtas när registret kommer
+    const catDef = categoryDefsRef.current.find(c => c.id === category);
+    if (!catDef) return;
+
+    // POI:er från en tidigare, mindre vy ligger annars kvar som om de vore allt som finns
+    if (east - west > MAX_BBOX_DEG || north - south > MAX_BBOX_DEG) {
+      removeFeatures(category);
+      setNotice(ZOOM_IN_HINT);
+      return;
+    }
+
+    fetchesRef.current++;
+    setLoading(true);
+    try {
+      const res = await fetch(`${apiBase}/api/pois?${poiQuery(catDef)}&bbox=${bbox}`);
+      if (res.status === 429) {
+        startWait(await retryAfterSeconds(res));
+        return;
+      }
+      if (res.status === 400) {
+        const body = await res.json().catch(() => null);
+        removeFeatures(category);
+        setNotice(body?.error ?? ZOOM_IN_HINT);
+        return;
+      }
+      if (!res.ok) throw new Error('POI fetch failed');
+      const pois: POI[] = await res.json();
+
+      // Only update if this category is still active
+      if (!activeCategoriesRef.current.includes(category)) return;
+      setNotice(null);
+
+      const projection = map.getView().getProjection();
+      removeFeatures(category);
+
+      source.addFeatures(pois.map(poi => new Feature({
+        geometry: new Point(fromLonLat([poi.lon, poi.lat], projection)),
+        poiId: `${poi.type}/${poi.id}`,
+        poiName: poi.name || 'Okänd',
+        poiCategory: catDef.label,
+        poiCategoryId: category,
+        poiColor: catDef.color,
+        poiTags: poi.tags,
+        poiHours: poi.tags.opening_hours ? parseOpeningHours(poi.tags.opening_hours) : null,
+      })));
+      restorePendingSelection();
+    } catch (e) {
+      console.error('POI error:', e);
+    } finally {
+      fetchesRef.current--;
+      if (fetchesRef.current === 0) setLoading(false);
+    }
+  }, [apiBase, mapRef, source, removeFeatures, restorePendingSelection, startWait]);
+
+  const selectCategories = useCallback((categoryIds: string[]) => {
+    const previous = activeCategoriesRef.current;
+    if (previous.length === categoryIds.length && previous.every(id => categoryIds.includes(id))) return;
+    activeCategoriesRef.current = categoryIds;
+    setActiveCategories(categoryIds);
+    closePopup();
+    for (const id of previous) {
+      if (!categoryIds.includes(id)) removeFeatures(id);
+    }
+    for (const id of categoryIds) {
+      if (!previous.includes(id)) fetchPois(id);
+    }
+  }, [fetchPois, removeFeatures, closePopup]);
+
+  const toggleCategory = (categoryId: string) => {
+    const active = activeCategoriesRef.current;
+    selectCategories(active.includes(categoryId)
+      ? active.filter(id => id !== categoryId)
+      : [...active, categoryId]);
+  };
+
+  const toggleOpenNow = () => {
+    openNowRef.current = !openNowRef.current;
+    setOpenNow(openNowRef.current);
+    closePopup();
+    cluster.refresh();
+  };
+
+  // Platser stänger och öppnar medan filtret är på — räkna om varje minut
+  useEffect(() => {
+    if (!openNow) return;
+    const timer = setInterval(() => cluster.refresh(), 60_000);
+    return () => clearInterval(timer);
+  }, [openNow, cluster]);
+
+  // POI-registret från servern + egna filter sparade i webbläsaren
+  useEffect(() => {
+    fetch(`${apiBase}/api/poi-categories`)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((serverCategories: PoiCategoryDef[]) => {
+        const defs = [...serverCategories, ...loadCustomCategories()];
+        categoryDefsRef.current = defs;
+        setCategoryDefs(defs);
+
+        // Kategorier som aktiverades innan registret fanns (t.ex. från URL:en)
+        const known = activeCategoriesRef.current.filter(id => defs.some(c => c.id === id));
+        activeCategoriesRef.current = known;
+        setActiveCategories(known);
+        for (const id of known) fetchPois(id);
+      })
+      .catch(e => console.error('POI category error:', e));
+  }, [apiBase, fetchPois]);
+
+  const addCustomCategory = (label: string, filter: string) => {
+    const customCount = categoryDefsRef.current.filter(c => c.custom).length;
+    const def: PoiCategoryDef = {
+      id: `custom-${Date.now().toString(36)}`,
+      label,
+      emoji: '',
+      color: customColor(customCount),
+      filter,
+      custom: true,
+    };
+    const defs = [...categoryDefsRef.current, def];
+    categoryDefsRef.current = defs;
+    setCategoryDefs(defs);
+    saveCustomCategories(defs);
+    selectCategories([...activeCategoriesRef.current, def.id]);
+  };
+
+  const removeCustomCategory = (id: string) => {
+    selectCategories(activeCategoriesRef.current.filter(c => c !== id));
+    const defs = categoryDefsRef.current.filter(c => c.id !== id);
+    categoryDefsRef.current = defs;
+    setCategoryDefs(defs);
+    saveCustomCategories(defs);
+  };
+
+  return {
+    id: 'poi',
+    layer,
+    sources: () => [source],
+    hitPriority: 30,
+    // Klusterbubbla → zooma in tills den delas upp; enskild POI → dess popup
+    click: (cluster, map) => {
+      const members: FeatureLike[] = cluster.get('features') ?? [cluster];
+      if (members.length === 1) return members[0];
+      const extent = boundingExtent(members.map(f => (f.getGeometry() as Point).getCoordinates()));
+      const view = map.getView();
+      const resolution = view.getResolution() ?? 0;
+      if (getWidth(extent) < resolution && getHeight(extent) < resolution) {
+        view.animate({ center: getCenter(extent), zoom: (view.getZoom() ?? 0) + 2, duration: 400 });
+      } else {
+        view.fit(extent, { padding: [60, 60, 60, 60], duration: 400 });
+      }
+      return null;
+    },
+    popup: (feature) => {
+      const name = feature.get('poiName');
+      const geom = feature.getGeometry() as Point;
+      const projection = mapRef.current?.getView().getProjection();
+      return {
+        body: (
+          <PoiPopup
+            name={name}
+            category={feature.get('poiCategory')}
+            tags={feature.get('poiTags') || {}}
+            hours={feature.get('poiHours')}
+            now={new Date()}
+          />
+        ),
+        position: geom.getCoordinates(),
+        place: { name, lonLat: toLonLat(geom.getCoordinates(), projection) as [number, number] },
+      };
+    },
+    selectionId: f => (f.get('poiId') !== undefined ? `poi:${f.get('poiId')}` : null),
+    describe: f => ({ type: f.get('poiCategory'), name: f.get('poiName') }),
+    toggle: (
+      <>
+        {categoryDefs.map(cat => (
+          <button
+            key={cat.id}
+            className={`poi-btn ${activeCategories.includes(cat.id) ? 'active' : ''}`}
+            style={{ '--poi-color': cat.color } as React.CSSProperties}
+            onClick={() => toggleCategory(cat.id)}
+            title={cat.filter}
+          >
+            {cat.label}
+            {cat.custom && (
+              <span
+                className="poi-btn-remove"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeCustomCategory(cat.id);
+                }}
+              >
+                &times;
+              </span>
+            )}
+          </button>
+        ))}
+        <CustomPoiForm apiBase={apiBase} onAdd={addCustomCategory} />
+        <button
+          className={`poi-btn ${openNow ? 'active' : ''}`}
+          style={{ '--poi-color': '#22c55e' } as React.CSSProperties}
+          onClick={toggleOpenNow}
+          title="Dölj platser som är stängda just nu enligt sina öppettider"
+        >
+          Öppet nu
+        </button>
+      </>
+    ),
+    status: wait > 0 ? (
+      <span className="poi-loading poi-throttled">Strypt — nytt försök om {formatCountdown(wait)}</span>
+    ) : loading ? <span className="poi-loading">Laddar...</span>
+      : notice && activeCategories.length > 0 && <span className="poi-loading poi-notice">{notice}</span>,
+    contextLayers: [
+      ...activeCategories.map(id => categoryDefs.find(c => c.id === id)?.label ?? id),
+      ...(openNow && activeCategories.length > 0 ? ['Filter: bara öppet nu'] : []),
+    ],
+    hashState: { poi: activeCategories },
+    restore: state => selectCategories(state.poi ?? []),
+    // Hämta om för den nya vyn när panoreringen stannat
+    onViewChange: () => {
+      if (activeCategoriesRef.current.length === 0) return;
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      debounceRef.current = setTimeout(() => {
+        for (const category of activeCategoriesRef.current) fetchPois(category);
+      }, 500);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import proj4 from 'proj4';
+import { register } from 'ol/proj/proj4';
+import { get as getProjection, toLonLat, transform, type ProjectionLike } from 'ol/proj';
+import type { Coordinate } from 'ol/coordinate';
+import View from 'ol/View';
+
+// SWEREF 99 TM — Lantmäteriets nationella referenssystem
+proj4.defs('EPSG:3006', '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
+register(proj4);
+getProjection('EPSG:3006')!.setExtent([-1200000, 4700000, 2600000, 8500000]);
+
+export type ProjectionMode = '3857' | '3006';
+
+interface ProjectionDef {
+  code: string;
+  label: string;
+  // Upplösningar för vyn — följer LM:s 3006-nivåer och fortsätter nedåt så att OSM kan zoomas in
+  viewResolutions?: number[];
+}
+
+export const PROJECTIONS: Record<ProjectionMode, ProjectionDef> = {
+  '3857': {
+    code: 'EPSG:3857',
+    label: 'Web Mercator',
+  },
+  '3006': {
+    code: 'EPSG:3006',
+    label: 'SWEREF 99 TM',
+    viewResolutions: Array.from({ length: 16 }, (_, z) => 4096 / 2 ** z),
+  },
+};
+
+export function createView(
+  mode: ProjectionMode,
+  { center, resolution, zoom }: { center: Coordinate; resolution?: number; zoom?: number },
+): View {
+  const def = PROJECTIONS[mode];
+  return new View({
+    projection: def.code,
+    center,
+    resolution,
+    zoom,
+    resolutions: def.viewResolutions,
+    maxZoom: def.viewResolutions ? undefined : 18,
+  });
+}
+
+// Markörens position som SWEREF 99 TM (N/E) + WGS84
+export function formatCoordinate(coord: Coordinate, projection: ProjectionLike): string {
+  const [lon, lat] = toLonLat(coord, projection);
+  const [e, n] = transform(coord, projection, 'EPSG:3006');
+  return `N ${Math.round(n)} E ${Math.round(e)} | ${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Sekunder att vänta efter 429: Retry-After-huvudet, annars retryAfter i svaret, annars en minut
+export async function retryAfterSeconds(res: Response): Promise<number> {
+  const header = Number(res.headers.get('Retry-After'));
+  if (Number.isFinite(header) && header > 0) return Math.ceil(header);
+  const body = await res.json().catch(() => null);
+  return Number.isFinite(body?.retryAfter) && body.retryAfter > 0 ? Math.ceil(body.retryAfter) : 60;
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Nedräkning i hela sekunder. start(sekunder) startar om den; onExpire anropas när den når noll.
+export function useCountdown(onExpire?: () => void): [number, (seconds: number) => void] {
+  const [until, setUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const onExpireRef = useRef(onExpire);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    if (until === null) return;
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= until) {
+        setUntil(null);
+        onExpireRef.current?.();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  const start = useCallback((seconds: number) => {
+    const t = Date.now();
+    setNow(t);
+    setUntil(t + seconds * 1000);
+  }, []);
+
+  return [until === null ? 0 : Math.max(0, Math.ceil((until - now) / 1000)), start];
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import GeoJSON from 'ol/format/GeoJSON';
+import { fromLonLat } from 'ol/proj';
+import RoutePanel from './RoutePanel';
+import { RouteError, fetchRoute, routeStyle, type Route, type RouteMode, type RouteStep, type Waypoint } from './routing';
+import type { MapOverlay, OverlayContext } from './overlays';
+
+export interface RouteOverlay extends MapOverlay {
+  open: boolean;
+  setOpen: (open: boolean | ((open: boolean) => boolean)) => void;
+  addWaypoint: (name: string, lonLat: [number, number]) => void;
+}
+
+// Rutten mellan punkter som lagts till från popupen, chattens platser och sökmarkören.
+// searched är sökmarkörens plats, som panelen kan lägga till som punkt.
+export function useRouteOverlay(
+  { apiBase, mapRef }: OverlayContext, searched: Omit<Waypoint, 'id'> | null,
+): RouteOverlay {
+  const [source] = useState(() => new VectorSource());
+  const [layer] = useState(() => new VectorLayer({ source, style: routeStyle }));
+  const waypointCounterRef = useRef(0);
+  const [open, setOpen] = useState(false);
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+  const [mode, setMode] = useState<RouteMode>('car');
+  // Senaste svaret och punkterna/färdsättet det gäller; laddar så länge det inte gäller de aktuella
+  const [result, setResult] = useState<{
+    waypoints: Waypoint[]; mode: RouteMode; route: Route | null; error: string | null;
+  } | null>(null);
+  const routable = waypoints.length >= 2;
+  const route = routable ? result?.route ?? null : null;
+  const error = routable ? result?.error ?? null : null;
+  const loading = routable && (result?.waypoints !== waypoints || result.mode !== mode);
+
+  const addWaypoint = useCallback((name: string, lonLat: [number, number]) => {
+    setWaypoints(prev => [...prev, { id: ++waypointCounterRef.current, name, lonLat }]);
+    setOpen(true);
+  }, []);
+
+  const moveWaypoint = (index: number, delta: -1 | 1) => {
+    setWaypoints(prev => {
+      const next = [...prev];
+      [next[index], next[index + delta]] = [next[index + delta], next[index]];
+      return next;
+    });
+  };
+
+  const focusStep = (step: RouteStep) => {
+    const map = mapRef.current;
+    if (!map) return;
+    map.getView().animate({
+      center: fromLonLat(step.location, map.getView().getProjection()),
+      zoom: Math.max(map.getView().getZoom() ?? 0, 15),
+      duration: 400,
+    });
+  };
+
+  // Beräkna om rutten när punkterna eller färdsättet ändras; äldre svar avbryts
+  useEffect(() => {
+    if (waypoints.length < 2) return;
+    const controller = new AbortController();
+    fetchRoute(apiBase, waypoints, mode, controller.signal)
+      .then(r => setResult({ waypoints, mode, route: r, error: null }))
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        if (!(e instanceof RouteError)) console.error('Route error:', e);
+        setResult({
+          waypoints, mode, route: null,
+          error: e instanceof RouteError ? e.message : 'Kunde inte hämta rutten',
+        });
+      });
+    return () => controller.abort();
+  }, [apiBase, waypoints, mode]);
+
+  // Rita rutten och numrerade punkter; ritas om från lon/lat så att projektionen alltid är den aktuella
+  useEffect(() => {
+    const map = mapRef.current;
+    source.clear();
+    if (!map) return;
+    const projection = map.getView().getProjection();
+    if (route) {
+      source.addFeature(new Feature({
+        geometry: new GeoJSON().readGeometry(route.geometry, { featureProjection: projection }),
+        role: 'line',
+        mode: route.mode,
+      }));
+    }
+    source.addFeatures(waypoints.map((w, i) => new Feature({
+      geometry: new Point(fromLonLat(w.lonLat, projection)),
+      role: 'waypoint',
+      label: i + 1,
+    })));
+  }, [source, mapRef, route, waypoints]);
+
+  return {
+    id: 'route',
+    layer,
+    sources: () => [source],
+    panel: open && (
+      <RoutePanel
+        waypoints={waypoints}
+        mode={mode}
+        route={route}
+        loading={loading}
+        error={error}
+        canAddMarker={searched !== null}
+        onModeChange={setMode}
+        onMove={moveWaypoint}
+        onRemove={(id) => setWaypoints(prev => prev.filter(w => w.id !== id))}
+        onAddMarker={() => searched && addWaypoint(searched.name, searched.lonLat)}
+        onStepClick={focusStep}
+        onClear={() => setWaypoints([])}
+        onClose={() => setOpen(false)}
+      />
+    ),
+    contextLayers: route ? ['Rutt'] : [],
+    open,
+    setOpen,
+    addWaypoint,
+  };
+}
@@ -0,0 +1,89 @@
+import type { FeatureLike } from 'ol/Feature';
+import { Circle as CircleStyle, Fill, Stroke, Style, Text } from 'ol/style';
+
+// Rutt mellan egna punkter via /api/route (OSRM-kompatibel backend på servern)
+
+export type RouteMode = 'car' | 'bike' | 'foot';
+
+export const ROUTE_MODES: { id: RouteMode; label: string }[] = [
+  { id: 'car', label: 'Bil' },
+  { id: 'bike', label: 'Cykel' },
+  { id: 'foot', label: 'Gång' },
+];
+
+export interface Waypoint {
+  id: number;
+  name: string;
+  lonLat: [number, number];
+}
+
+export interface RouteStep {
+  instruction: string;
+  name: string;
+  distance: number;
+  duration: number;
+  location: [number, number];
+}
+
+export interface Route {
+  mode: RouteMode;
+  distance: number; // meter
+  duration: number; // sekunder
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  legs: { distance: number; duration: number; steps: RouteStep[] }[];
+}
+
+export class RouteError extends Error {}
+
+export async function fetchRoute(apiBase: string, waypoints: Waypoint[], mode: RouteMode, signal?: AbortSignal): Promise<Route> {
+  const points = waypoints.map(w => w.lonLat.map(v => v.toFixed(6)).join(',')).join(';');
+  const res = await fetch(`${apiBase}/api/route?points=${encodeURIComponent(points)}&mode=${mode}`, { signal });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new RouteError(data?.error || `HTTP ${res.status}`);
+  return data;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${Math.max(minutes, 1)} min`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m ? `${h} h ${m} min` : `${h} h`;
+}
+
+// Färdsättet ger linjefärgen så att man ser direkt vad rutten är beräknad för
+const ROUTE_COLORS: Record<RouteMode, string> = { car: '#2563eb', bike: '#16a34a', foot: '#db2777' };
+
+const lineStyleCache: Record<string, Style[]> = {};
+const waypointStyleCache: Record<string, Style> = {};
+
+// Linjen har role=line, punkterna role=waypoint med label (1, 2, …)
+export function routeStyle(feature: FeatureLike): Style[] {
+  const mode: RouteMode = feature.get('mode') ?? 'car';
+  if (feature.get('role') === 'line') {
+    if (!lineStyleCache[mode]) {
+      lineStyleCache[mode] = [
+        new Style({ stroke: new Stroke({ color: '#ffffff', width: 8 }) }),
+        new Style({ stroke: new Stroke({ color: ROUTE_COLORS[mode], width: 5 }) }),
+      ];
+    }
+    return lineStyleCache[mode];
+  }
+  const label = String(feature.get('label') ?? '');
+  if (!waypointStyleCache[label]) {
+    waypointStyleCache[label] = new Style({
+      image: new CircleStyle({
+        radius: 10,
+        fill: new Fill({ color: '#0f172a' }),
+        stroke: new Stroke({ color: '#fff', width: 2 }),
+      }),
+      text: new Text({
+        text: label,
+        font: '600 11px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+        fill: new Fill({ color: '#fff' }),
+      }),
+      zIndex: 1,
+    });
+  }
+  return [waypointStyleCache[label]];
+}
@@ -0,0 +1,65 @@
+// Kommunstatistik från SCB — tabell + ett värde per variabel, se server/scbStats.js
+
+export const DEFAULT_STAT_TABLE = 'AM/AM0210/AM0210D/ArRegArbStatus';
+
+export interface StatTable {
+  id: string;
+  label: string;
+  path: string;
+}
+
+export interface StatVariable {
+  code: string;
+  text: string;
+  time: boolean;
+  elimination: boolean;
+  values: { code: string; text: string }[];
+}
+
+export interface StatMeta {
+  table: string;
+  title: string;
+  variables: StatVariable[];
+  selection: Record<string, string>;
+}
+
+export interface StatQuery {
+  table: string;
+  selection: Record<string, string>; // variabelkod → värdekod; utelämnad = serverns default
+}
+
+// Metadata som följer med GeoJSON-svaret; varje kommun har en serie med ett värde per år i years
+export interface StatInfo {
+  table: string;
+  title: string;
+  unit: string | null;
+  selection: Record<string, string>;
+  labels: Record<string, { text: string; value: string }>;
+  timeCode: string;
+  years: string[];
+}
+
+export type StatSeries = (number | null)[];
+
+export function statQueryString(query: StatQuery): string {
+  const params = new URLSearchParams({ table: query.table, ...query.selection });
+  return params.toString();
+}
+
+// Samma tabell och val bortsett från året — då räcker det att byta år på klienten
+export function sameStatExceptTime(a: StatQuery, b: StatQuery, timeCode: string): boolean {
+  const strip = (q: StatQuery) => JSON.stringify(
+    Object.entries(q.selection).filter(([code]) => code !== timeCode).sort(([x], [y]) => x.localeCompare(y)));
+  return a.table === b.table && strip(a) === strip(b);
+}
+
+// Kort rubrik för legend och popup: mått + år, t.ex. "sysselsättningsgrad, procent 2024"
+export function statHeading(info: StatInfo, year: string | null): string {
+  const measure = info.labels.ContentsCode?.value ?? info.title;
+  return year ? `${measure} ${year}` : measure;
+}
+
+export function formatStatValue(value: number, unit: string | null): string {
+  const text = value.toLocaleString('sv-SE', { maximumFractionDigits: 1 });
+  return unit ? `${text} ${unit}` : text;
+}
@@ -0,0 +1,133 @@
+import Feature from 'ol/Feature';
+import type { FeatureLike } from 'ol/Feature';
+import type { Geometry } from 'ol/geom';
+import LineString from 'ol/geom/LineString';
+import Polygon from 'ol/geom/Polygon';
+import GeoJSON from 'ol/format/GeoJSON';
+import GPX from 'ol/format/GPX';
+import KML from 'ol/format/KML';
+import { Circle as CircleStyle, Fill, Stroke, Style, Text } from 'ol/style';
+import type { ProjectionLike } from 'ol/proj';
+
+// Egna skisser: punkter, linjer och ytor med namn, anteckning och färg.
+// Sparas lokalt i webbläsaren som GeoJSON i WGS84 så att de överlever projektionsbyte och omladdning.
+
+export type SketchMode = 'point' | 'line' | 'polygon' | 'edit';
+export type SketchExportFormat = 'geojson' | 'kml' | 'gpx';
+
+const STORAGE_KEY = 'weraryu.sketch';
+
+export const SKETCH_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#0ea5e9', '#6366f1', '#ec4899', '#0f172a'];
+export const DEFAULT_SKETCH_COLOR = SKETCH_COLORS[0];
+
+const TYPE_LABELS: Record<string, string> = { Point: 'Punkt', LineString: 'Linje', Polygon: 'Yta' };
+
+export function defaultSketchName(geometry: Geometry, index: number): string {
+  return `${TYPE_LABELS[geometry.getType()] ?? 'Objekt'} ${index}`;
+}
+
+export function loadSketch(projection: ProjectionLike): Feature[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return new GeoJSON().readFeatures(stored, { featureProjection: projection });
+  } catch {
+    return [];
+  }
+}
+
+export function saveSketch(features: Feature[], projection: ProjectionLike) {
+  localStorage.setItem(STORAGE_KEY, new GeoJSON().writeFeatures(features, { featureProjection: projection }));
+}
+
+const styleCache: Record<string, Style> = {};
+function baseStyle(color: string): Style {
+  if (!styleCache[color]) {
+    styleCache[color] = new Style({
+      fill: new Fill({ color: `${color}33` }),
+      stroke: new Stroke({ color, width: 3 }),
+      image: new CircleStyle({
+        radius: 7,
+        fill: new Fill({ color }),
+        stroke: new Stroke({ color: '#fff', width: 2 }),
+      }),
+    });
+  }
+  return styleCache[color];
+}
+
+// Vald skiss markeras med en bred ljus kant under den vanliga stilen
+const selectedStyle = new Style({
+  stroke: new Stroke({ color: 'rgba(255, 255, 255, 0.9)', width: 8 }),
+  image: new CircleStyle({
+    radius: 11,
+    fill: new Fill({ color: 'rgba(255, 255, 255, 0.9)' }),
+  }),
+});
+
+export function sketchStyle(feature: FeatureLike, selected = false): Style[] {
+  const color: string = feature.get('color') || DEFAULT_SKETCH_COLOR;
+  const name: string = feature.get('name') || '';
+  const styles = selected ? [selectedStyle, baseStyle(color)] : [baseStyle(color)];
+  if (name) {
+    const isPoint = feature.getGeometry()?.getType() === 'Point';
+    styles.push(new Style({
+      text: new Text({
+        text: name,
+        font: '600 12px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+        offsetY: isPoint ? -16 : 0,
+        placement: feature.getGeometry()?.getType() === 'LineString' ? 'line' : 'point',
+        fill: new Fill({ color: '#0f172a' }),
+        stroke: new Stroke({ color: '#fff', width: 3 }),
+        overflow: true,
+      }),
+    }));
+  }
+  return styles;
+}
+
+// Kopior med egenskaper i exportformatets namn (name/description för KML, name/desc för GPX)
+function exportCopies(features: Feature[], format: SketchExportFormat): Feature[] {
+  return features.map(f => {
+    let geometry = f.getGeometry()!.clone();
+    // GPX saknar ytor — ytterkanten blir en sluten rutt
+    if (format === 'gpx' && geometry instanceof Polygon) {
+      geometry = new LineString(geometry.getCoordinates()[0] ?? []);
+    }
+    const copy = new Feature({ geometry, name: f.get('name') || '' });
+    const note: string = f.get('note') || '';
+    if (format === 'kml') {
+      if (note) copy.set('description', note);
+      copy.setStyle(baseStyle(f.get('color') || DEFAULT_SKETCH_COLOR));
+    } else if (format === 'gpx') {
+      if (note) copy.set('desc', note);
+    } else {
+      copy.setProperties({ note, color: f.get('color') || DEFAULT_SKETCH_COLOR });
+    }
+    return copy;
+  });
+}
+
+export function exportSketch(features: Feature[], format: SketchExportFormat, projection: ProjectionLike): string {
+  const copies = exportCopies(features, format);
+  const options = { featureProjection: projection, dataProjection: 'EPSG:4326' };
+  if (format === 'kml') return new KML().writeFeatures(copies, options);
+  if (format === 'gpx') return new GPX().writeFeatures(copies, options);
+  return new GeoJSON().writeFeatures(copies, options);
+}
+
+const MIME_TYPES: Record<SketchExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+};
+
+export function downloadSketch(features: Feature[], format: SketchExportFormat, projection: ProjectionLike) {
+  const blob = new Blob([exportSketch(features, format, projection)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `skiss-${new Date().toISOString().slice(0, 10)}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
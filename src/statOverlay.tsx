@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import GeoJSON from 'ol/format/GeoJSON';
+import { Style, Fill, Stroke } from 'ol/style';
+import StatPanel from './StatPanel';
+import {
+  formatStatValue, sameStatExceptTime, statHeading, statQueryString,
+  type StatInfo, type StatQuery, type StatSeries,
+} from './scbStats';
+import {
+  ClassifyError, DEFAULT_CLASS_SETTINGS, classIndex, computeBreaks, paletteColors, withAlpha, type ClassSettings,
+} from './classify';
+import StatLegend, { type LegendClass } from './StatLegend';
+import Sparkline from './Sparkline';
+import type { MapOverlay, OverlayContext } from './overlays';
+
+// Kommunstil per klass; utanför egna brytpunkter och saknade värden får egna, neutrala färger
+const STAT_NO_DATA_COLOR = '#787878';
+const STAT_BELOW_COLOR = '#1e293b';
+const STAT_ABOVE_COLOR = '#f1f5f9';
+
+function statClassColor(index: number | null, colors: string[]): string {
+  if (index === null) return STAT_NO_DATA_COLOR;
+  if (index < 0) return STAT_BELOW_COLOR;
+  return colors[index] ?? STAT_ABOVE_COLOR;
+}
+
+// highlight: 'on' = klassen under muspekaren i legenden, 'off' = övriga när något är markerat
+const statStyleCache: Record<string, Style> = {};
+function statStyle(color: string, highlight: 'on' | 'off' | 'none'): Style {
+  const key = `${color}:${highlight}`;
+  if (!statStyleCache[key]) {
+    statStyleCache[key] = new Style({
+      fill: new Fill({ color: withAlpha(color, highlight === 'off' ? 0.15 : color === STAT_NO_DATA_COLOR ? 0.5 : 0.85) }),
+      stroke: highlight === 'on'
+        ? new Stroke({ color: '#ffffff', width: 2 })
+        : new Stroke({ color: '#ffffff44', width: 0.5 }),
+      zIndex: highlight === 'on' ? 1 : 0,
+    });
+  }
+  return statStyleCache[key];
+}
+
+// Koropletkarta med SCB-statistik per kommun: panel för tabell och variabler, legend med klassning
+// och tidsreglage, popup med värde och trend
+export function useStatOverlay({ apiBase, mapRef, closePopup, restorePendingSelection }: OverlayContext): MapOverlay {
+  const [source] = useState(() => new VectorSource());
+  const breaksRef = useRef<number[]>([]);
+  const colorsRef = useRef<string[]>([]);
+  const highlightRef = useRef<number | null | undefined>(undefined);
+  const [layer] = useState(() => new VectorLayer({
+    source,
+    style: (feature) => {
+      const index: number | null = feature.get('statClass') ?? null;
+      const highlight = highlightRef.current;
+      return statStyle(
+        statClassColor(index, colorsRef.current),
+        highlight === undefined ? 'none' : highlight === index ? 'on' : 'off',
+      );
+    },
+    visible: false,
+    opacity: 0.75,
+    zIndex: 1,
+  }));
+  const infoRef = useRef<StatInfo | null>(null);
+  const requestRef = useRef(0);
+  const queryRef = useRef<StatQuery | null>(null);
+  const classSettingsRef = useRef<ClassSettings>(DEFAULT_CLASS_SETTINGS);
+
+  const [query, setQuery] = useState<StatQuery | null>(null);
+  const [info, setInfo] = useState<StatInfo | null>(null);
+  const [classSettings, setClassSettings] = useState<ClassSettings>(DEFAULT_CLASS_SETTINGS);
+  const [legendClasses, setLegendClasses] = useState<LegendClass[]>([]);
+  const [playing, setPlaying] = useState(false);
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Visa ett år ur serierna: värde och klass per kommun, antal per klass till legenden
+  const applyYear = useCallback((year: string) => {
+    const info = infoRef.current;
+    const query = queryRef.current;
+    const index = info ? info.years.indexOf(year) : -1;
+    if (!info || !query || index < 0) return;
+
+    const breaks = breaksRef.current;
+    const k = breaks.length - 1;
+    const counts: Record<string, number> = {};
+    for (const feature of source.getFeatures()) {
+      const series: StatSeries | null = feature.get('series');
+      const value = series?.[index] ?? null;
+      const cls = value !== null && k > 0 ? classIndex(value, breaks) : null;
+      feature.set('value', value, true);
+      feature.set('statClass', cls, true);
+      counts[String(cls)] = (counts[String(cls)] || 0) + 1;
+    }
+    layer.changed();
+
+    const classes: LegendClass[] = [];
+    if (counts['-1']) classes.push({ index: -1, from: null, to: breaks[0], color: STAT_BELOW_COLOR, count: counts['-1'] });
+    for (let i = 0; i < k; i++) {
+      classes.push({
+        index: i,
+        from: breaks[i],
+        to: breaks[i + 1],
+        color: colorsRef.current[i],
+        count: counts[String(i)] || 0,
+      });
+    }
+    if (counts[String(k)] && k > 0) {
+      classes.push({ index: k, from: breaks[k], to: null, color: STAT_ABOVE_COLOR, count: counts[String(k)] });
+    }
+    if (counts.null) classes.push({ index: null, from: null, to: null, color: STAT_NO_DATA_COLOR, count: counts.null });
+    setLegendClasses(classes);
+
+    queryRef.current = { ...query, selection: { ...query.selection, [info.timeCode]: year } };
+    setQuery(queryRef.current);
+  }, [source, layer]);
+
+  // Klassgränser över alla år så att färgerna går att jämföra mellan åren
+  const classify = useCallback((settings: ClassSettings) => {
+    const values = source.getFeatures()
+      .flatMap(f => (f.get('series') as StatSeries | null) ?? [])
+      .filter((v): v is number => v !== null);
+
+    let breaks: number[];
+    try {
+      breaks = computeBreaks(values, settings);
+    } catch (e) {
+      if (!(e instanceof ClassifyError)) throw e;
+      breaks = computeBreaks(values, DEFAULT_CLASS_SETTINGS);
+    }
+    breaksRef.current = breaks;
+    colorsRef.current = paletteColors(settings.palette, Math.max(breaks.length - 1, 0));
+
+    const info = infoRef.current;
+    const year = info && queryRef.current?.selection[info.timeCode];
+    if (year) applyYear(year);
+  }, [source, applyYear]);
+
+  const changeClassSettings = (settings: ClassSettings) => {
+    classSettingsRef.current = settings;
+    setClassSettings(settings);
+    classify(settings);
+  };
+
+  const highlightClass = (index: number | null | undefined) => {
+    highlightRef.current = index;
+    layer.changed();
+  };
+
+  // Visa SCB-statistik per kommun (null = dölj). Senaste anropet vinner om flera hinner starta.
+  const show = useCallback(async (next: StatQuery | null) => {
+    const request = ++requestRef.current;
+    setError(null);
+
+    if (!next) {
+      queryRef.current = null;
+      setQuery(null);
+      setPlaying(false);
+      setLoading(false);
+      layer.setVisible(false);
+      source.clear();
+      infoRef.current = null;
+      setInfo(null);
+      setLegendClasses([]);
+      closePopup();
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`${apiBase}/api/kommuner-stat?${statQueryString(next)}`);
+      const geojson = await res.json();
+      if (!res.ok) throw new Error(geojson.error || `HTTP ${res.status}`);
+      if (request !== requestRef.current) return;
+
+      const featureProjection = mapRef.current?.getView().getProjection() ?? 'EPSG:3857';
+      const features = new GeoJSON().readFeatures(geojson, { featureProjection });
+
+      const info: StatInfo = geojson.stat;
+      infoRef.current = info;
+      setInfo(info);
+      queryRef.current = { table: info.table, selection: info.selection };
+
+      closePopup();
+      source.clear();
+      source.addFeatures(features);
+      classify(classSettingsRef.current);
+      layer.setVisible(true);
+      restorePendingSelection();
+    } catch (e) {
+      console.error('Kommunstatistik fetch error:', e);
+      if (request === requestRef.current) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [apiBase, mapRef, source, layer, closePopup, restorePendingSelection, classify]);
+
+  // Uppspelning av tidsserien — ett år i taget, börjar om från första året
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      const info = infoRef.current;
+      const year = info && queryRef.current?.selection[info.timeCode];
+      if (!info || !year) return;
+      applyYear(info.years[(info.years.indexOf(year) + 1) % info.years.length]);
+    }, 900);
+    return () => clearInterval(timer);
+  }, [playing, applyYear]);
+
+  // Samma tabell och variabler med ett annat år byter bara år; annat urval hämtas om
+  const restore = (stat: StatQuery | null) => {
+    const current = queryRef.current;
+    const info = infoRef.current;
+    setPlaying(false);
+    if (stat && current && info && sameStatExceptTime(stat, current, info.timeCode)) {
+      const year = stat.selection[info.timeCode];
+      if (year) applyYear(year);
+    } else if (JSON.stringify(stat) !== JSON.stringify(current)) {
+      show(stat);
+    }
+  };
+
+  const year = info ? query?.selection[info.timeCode] ?? null : null;
+
+  return {
+    id: 'stat',
+    layer,
+    sources: () => [source],
+    hitPriority: 10,
+    popup: (feature) => {
+      const value = feature.get('value');
+      const series: StatSeries | null = feature.get('series');
+      const info = infoRef.current;
+      const year = info ? queryRef.current?.selection[info.timeCode] ?? null : null;
+      return {
+        body: (
+          <>
+            <strong>{feature.get('namn')}</strong>
+            {info ? (
+              <>
+                <br />
+                <span className="poi-popup-type">{statHeading(info, year)}</span>
+                <div>{value !== null && value !== undefined ? formatStatValue(value, info.unit) : 'Data saknas'}</div>
+                {/* Trenden över alla år, valt år markerat */}
+                {series && year && series.filter(v => v !== null).length > 1 && (
+                  <>
+                    <Sparkline series={series} index={info.years.indexOf(year)} />
+                    <span className="poi-popup-type">{info.years[0]}–{info.years[info.years.length - 1]}</span>
+                  </>
+                )}
+              </>
+            ) : <div>Data saknas</div>}
+          </>
+        ),
+      };
+    },
+    selectionId: f => (f.get('kod') !== undefined ? `kommun:${f.get('kod')}` : null),
+    describe: f => ({ type: 'kommun', name: f.get('namn') }),
+    // Öppen kommunpopup följer valt år
+    popupRevision: year,
+    toggle: (
+      <button
+        className={`poi-btn ${query ? 'active' : ''}`}
+        style={{ '--poi-color': '#6366f1' } as React.CSSProperties}
+        onClick={() => setPanelOpen(o => !o)}
+      >
+        Statistik
+      </button>
+    ),
+    legend: info && (
+      <StatLegend
+        heading={statHeading(info, year)}
+        unit={info.unit}
+        classes={legendClasses}
+        settings={classSettings}
+        onSettingsChange={changeClassSettings}
+        onHover={highlightClass}
+        years={info.years}
+        year={year}
+        playing={playing}
+        onYearChange={(y) => {
+          setPlaying(false);
+          applyYear(y);
+        }}
+        onTogglePlay={() => setPlaying(p => !p)}
+      />
+    ),
+    panel: panelOpen && (
+      <StatPanel
+        apiBase={apiBase}
+        active={query}
+        loading={loading}
+        error={error}
+        onApply={show}
+        onHide={() => show(null)}
+        onClose={() => setPanelOpen(false)}
+      />
+    ),
+    contextLayers: info ? [statHeading(info, year)] : [],
+    hashState: { stat: query },
+    restore: state => restore(state.stat ?? null),
+    // Under uppspelning skrivs ingen historik — året hamnar i URL:en när den pausas
+    holdHistory: playing,
+  };
+}